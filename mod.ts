@@ -1,23 +1,200 @@
 export {
+  type EnvError,
+  envErrorToString,
+  type EnvOptions,
+  type PathExpandOptions,
+  type XdgBaseDirectory,
+} from "./src/env.ts";
+
+export {
+  type FileName,
+  fileName,
+  type FileNameDefaultValidateOptions,
+  fileNameEquals,
+  type FileNameEqualsOptions,
+  type FileNameLiteral,
+  fileNameSanitize,
+  type FileNameSanitizeChange,
+  type FileNameSanitized,
+  type FileNameSanitizeError,
+  fileNameSanitizeErrorToString,
+  type FileNameSanitizeOptions,
+  fileNameStem,
+  fileNameSuffix,
+  fileNameSuffixes,
+  type FileNameTarget,
   fileNameValidate,
   type FileNameValidateError,
+  type FileNameValidateOptions,
   fileNameValidationErrorsToStrings,
   fileNameValidationErrorToString,
   type FileNameValidationResult,
+  type UnicodeNormalization,
 } from "./src/filename.ts";
 
+export { denoFileSystem, type FileSystem } from "./src/filesystem.ts";
+
+export {
+  type GlobOptions,
+  globParse,
+  type GlobPattern,
+  type GlobSyntaxError,
+  globSyntaxErrorToString,
+  matches,
+} from "./src/glob.ts";
+
+export {
+  jsonParse,
+  type JsonParseError,
+  jsonParseErrorToString,
+} from "./src/json.ts";
+
+export {
+  type PathInfo,
+  type PermissionBits,
+  type Permissions,
+  permissionsFromMode,
+  permissionsToMode,
+} from "./src/info.ts";
+
+export {
+  FileLock,
+  type FileLockError,
+  fileLockErrorToString,
+  type FileUnlockError,
+  fileUnlockErrorToString,
+  type LockOptions,
+} from "./src/lock.ts";
+
+export { MemoryFileSystem } from "./src/memory.ts";
+
 export {
   buildDirectoryErrorToString,
+  type BuildDirectoryOptions,
+  type CanonicalizeError,
+  canonicalizeErrorToString,
+  type ChmodError,
+  chmodErrorToString,
+  type CopyOptions,
+  type DetectPathError,
+  detectPathErrorToString,
   Directory,
+  type DirectoryCanonicalizeError,
+  type DirectoryCopyError,
+  directoryCopyErrorToString,
   directoryExistsErrorToString,
+  type DirectoryGlobError,
+  directoryGlobErrorToString,
+  type DirectoryListError,
+  directoryListErrorToString,
+  type DirectoryMoveError,
+  directoryMoveErrorToString,
+  type DirectoryRemoveError,
+  directoryRemoveErrorToString,
+  type DirectoryRemoveOptions,
+  type DirectoryStatError,
+  directoryStatErrorToString,
+  type DirectoryWalkError,
+  directoryWalkErrorToString,
+  type DirectoryWalkOptions,
+  type DirectoryWatchError,
+  directoryWatchErrorToString,
   File,
+  type FileAppendError,
+  fileAppendErrorToString,
+  type FileAppendOptions,
+  type FileCanonicalizeError,
+  type FileCopyError,
+  fileCopyErrorToString,
   type FileExistsError,
   fileExistsErrorToString,
+  type FileLinesOptions,
+  type FileMoveError,
+  fileMoveErrorToString,
   type FileReadError,
   fileReadErrorToString,
+  type FileReadJsonError,
+  fileReadJsonErrorToString,
+  type FileRemoveError,
+  fileRemoveErrorToString,
+  type FileStatError,
+  fileStatErrorToString,
+  type FileWriteAtomicError,
+  fileWriteAtomicErrorToString,
   type FileWriteError,
   fileWriteErrorToString,
+  type FileWriteJsonError,
+  fileWriteJsonErrorToString,
+  type MetadataChangeError,
+  metadataChangeErrorToString,
   mkdirErrorToString,
   mkdirpErrorToString,
-  type Path,
+  type MoveOptions,
+  type NameChangeError,
+  nameChangeErrorToString,
+  type ParseFileError,
+  type ParsePathError,
+  parsePathErrorToString,
+  Path,
+  type PathFromFileUrlError,
+  pathFromFileUrlErrorToString,
+  type PathFromFileUrlOptions,
+  type PathFromJsonError,
+  pathFromJsonErrorToString,
+  type PathFromJsonOptions,
+  type PathJson,
+  type PathParseOptions,
+  type PathSegmentError,
+  SymbolicLink,
+  type SymbolicLinkExistsError,
+  symbolicLinkExistsErrorToString,
+  type SymbolicLinkReadError,
+  symbolicLinkReadErrorToString,
+  type SymbolicLinkTargetError,
+  symbolicLinkTargetErrorToString,
+  type SymlinkError,
+  symlinkErrorToString,
+  type WellKnownDirectoryError,
+  wellKnownDirectoryErrorToString,
+  type WellKnownDirectoryOptions,
+  type WriteAtomicOptions,
+  type WriteJsonOptions,
 } from "./src/path.ts";
+
+export {
+  type BuildRelativePathError,
+  buildRelativePathErrorToString,
+  RelativePath,
+  type RelativePathResolveError,
+  relativePathResolveErrorToString,
+  type RelativePathSegment,
+} from "./src/relative.ts";
+
+export {
+  type TempCreateError,
+  tempCreateErrorToString,
+  TempDirectory,
+  TempFile,
+  type TempOptions,
+} from "./src/temp.ts";
+
+export { type FileUrlError, fileUrlErrorToString } from "./src/url.ts";
+
+export {
+  DirectoryWatcher,
+  type WatchEvent,
+  type WatchEventError,
+  watchEventErrorToString,
+  type WatchOptions,
+} from "./src/watch.ts";
+
+export {
+  type BuildWindowsPathError,
+  buildWindowsPathErrorToString,
+  type WindowsConvertError,
+  windowsConvertErrorToString,
+  WindowsDirectory,
+  WindowsFile,
+  windowsNameValidate,
+  type WindowsRoot,
+} from "./src/windows.ts";
@@ -0,0 +1,173 @@
+/**
+ * Environment variables for well-known directories and path expansion.
+ *
+ * `Directory.home()` and `Directory.cwd()` locate the process's directories,
+ * and `Directory.xdgConfigHome()` and its siblings follow the fallbacks of the
+ * XDG Base Directory specification. `Directory.build()` and `File.parse()`
+ * expand `~` and `$VAR` on request.
+ *
+ * @example Locating a CLI's files
+ * ```ts
+ * import { assert, assertEquals } from "@std/assert";
+ * import { Directory, File } from "./path.ts";
+ *
+ * const env = { HOME: "/home/ada", XDG_CACHE_HOME: "/var/cache/ada" };
+ *
+ * const config = Directory.xdgConfigHome("mytool", { env });
+ * assert(config.success);
+ * assertEquals(config.value.fullPath, "/home/ada/.config/mytool");
+ *
+ * const cache = Directory.xdgCacheHome("mytool", { env });
+ * assert(cache.success);
+ * assertEquals(cache.value.fullPath, "/var/cache/ada/mytool");
+ *
+ * const history = File.parse("~/.mytool_history", { expandHome: true, env });
+ * assert(history.success);
+ * assertEquals(history.value.fullPath, "/home/ada/.mytool_history");
+ * ```
+ */
+import { err, ExhaustiveCaseError, ok, type Result } from "@coint/simple";
+
+export type EnvOptions = {
+  // the variables to read instead of the process environment
+  env?: Record<string, string | undefined>;
+};
+
+export type EnvError =
+  | { kind: "ENV_NOT_SET"; name: string }
+  | { kind: "ENV_NOT_ABSOLUTE"; name: string; value: string }
+  // run without --allow-env
+  | { kind: "ENV_NOT_ALLOWED"; name: string };
+
+export type PathExpandOptions = EnvOptions & {
+  // replace a leading "~" with $HOME; "~user" is not expanded
+  expandHome?: boolean;
+  // replace $VAR and ${VAR}, failing for unset ones
+  expandEnv?: boolean;
+};
+
+export type XdgBaseDirectory =
+  | "config"
+  | "data"
+  | "cache"
+  | "state"
+  | "runtime";
+
+// The variables of the XDG base directories, with their defaults below $HOME
+const XDG_BASE_DIRECTORIES: Record<
+  XdgBaseDirectory,
+  { name: string; fallback: string | undefined }
+> = {
+  config: { name: "XDG_CONFIG_HOME", fallback: ".config" },
+  data: { name: "XDG_DATA_HOME", fallback: ".local/share" },
+  cache: { name: "XDG_CACHE_HOME", fallback: ".cache" },
+  state: { name: "XDG_STATE_HOME", fallback: ".local/state" },
+  // the specification has no default for it
+  runtime: { name: "XDG_RUNTIME_DIR", fallback: undefined },
+};
+
+// An empty variable counts as unset, like in the XDG specification
+export function envGet(
+  name: string,
+  options: EnvOptions,
+): Result<string, EnvError> {
+  let value: string | undefined;
+  try {
+    value = options.env === undefined ? Deno.env.get(name) : options.env[name];
+  } catch {
+    return err({ kind: "ENV_NOT_ALLOWED", name });
+  }
+  return value ? ok(value) : err({ kind: "ENV_NOT_SET", name });
+}
+
+export function envAbsolutePath(
+  name: string,
+  options: EnvOptions,
+): Result<string, EnvError> {
+  const value = envGet(name, options);
+  if (value.success && !value.value.startsWith("/")) {
+    return err({ kind: "ENV_NOT_ABSOLUTE", name, value: value.value });
+  }
+  return value;
+}
+
+// The full path of an XDG base directory; a relative value is ignored, as
+// the specification asks, and the default is used instead
+export function xdgBasePath(
+  directory: XdgBaseDirectory,
+  options: EnvOptions,
+): Result<string, EnvError> {
+  const { name, fallback } = XDG_BASE_DIRECTORIES[directory];
+  const value = envAbsolutePath(name, options);
+  if (
+    value.success || fallback === undefined ||
+    value.error.kind === "ENV_NOT_ALLOWED"
+  ) {
+    return value;
+  }
+  const home = envAbsolutePath("HOME", options);
+  return home.success
+    ? ok(`${withoutTrailingSlash(home.value)}/${fallback}`)
+    : home;
+}
+
+// Expands what the options ask for; values are inserted as they are, so a
+// "$" or "~" inside them is not expanded again
+export function pathExpand(
+  rawPath: string,
+  options: PathExpandOptions,
+): Result<string, EnvError> {
+  let prefix = "";
+  let rest = rawPath;
+  if (options.expandHome && (rawPath === "~" || rawPath.startsWith("~/"))) {
+    const home = envAbsolutePath("HOME", options);
+    if (!home.success) {
+      return home;
+    }
+    // "~/a" with HOME "/" is "/a"
+    prefix = withoutTrailingSlash(home.value);
+    if (rawPath === "~" && prefix === "") {
+      prefix = "/";
+    }
+    rest = rawPath.slice(1);
+  }
+  if (!options.expandEnv) {
+    return ok(prefix + rest);
+  }
+
+  let expanded = "";
+  let last = 0;
+  for (
+    const match of rest.matchAll(/\$(?:\{([A-Za-z_]\w*)\}|([A-Za-z_]\w*))/gu)
+  ) {
+    const name = match[1] ?? match[2] ?? "";
+    const value = envGet(name, options);
+    if (!value.success) {
+      return value;
+    }
+    expanded += rest.slice(last, match.index) + value.value;
+    last = match.index + match[0].length;
+  }
+  return ok(prefix + expanded + rest.slice(last));
+}
+
+function withoutTrailingSlash(path: string): string {
+  return path.replace(/\/+$/u, "");
+}
+
+export function envErrorToString(error: EnvError): string {
+  switch (error.kind) {
+    case "ENV_NOT_SET": {
+      return `Environment variable is not set: $${error.name}`;
+    }
+    case "ENV_NOT_ABSOLUTE": {
+      return `Environment variable $${error.name} is not an absolute path: "${error.value}"`;
+    }
+    case "ENV_NOT_ALLOWED": {
+      return `Not allowed to read environment variable $${error.name}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
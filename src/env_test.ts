@@ -0,0 +1,144 @@
+import { assert, assertEquals } from "@std/assert";
+import { err, ok } from "@coint/simple";
+import { MemoryFileSystem } from "./memory.ts";
+import {
+  buildDirectoryErrorToString,
+  Directory,
+  File,
+  type WellKnownDirectoryError,
+  wellKnownDirectoryErrorToString,
+} from "./path.ts";
+import { type EnvError, pathExpand } from "./env.ts";
+
+Deno.test("pathExpand() - home and variables", () => {
+  const env = { HOME: "/home/ada/", PROJECT: "path", EMPTY: "" };
+  assertEquals(pathExpand("~/x", { expandHome: true, env }), ok("/home/ada/x"));
+  assertEquals(pathExpand("~", { expandHome: true, env }), ok("/home/ada"));
+  assertEquals(
+    pathExpand("~", { expandHome: true, env: { HOME: "/" } }),
+    ok("/"),
+  );
+  // only a leading "~" alone or before "/" is the home directory
+  assertEquals(
+    pathExpand("~ada/x", { expandHome: true, env }),
+    ok("~ada/x"),
+  );
+  assertEquals(pathExpand("~/x", { env }), ok("~/x"));
+
+  assertEquals(
+    pathExpand("/src/$PROJECT/${PROJECT}_test/$", { expandEnv: true, env }),
+    ok("/src/path/path_test/$"),
+  );
+  assertEquals(
+    pathExpand("/$EMPTY", { expandEnv: true, env }),
+    err<EnvError>({ kind: "ENV_NOT_SET", name: "EMPTY" }),
+  );
+  // values are not expanded again
+  assertEquals(
+    pathExpand("~/$HOME", {
+      expandHome: true,
+      expandEnv: true,
+      env: { HOME: "/$x" },
+    }),
+    ok("/$x//$x"),
+  );
+});
+
+Deno.test("Directory.build() - expandHome and expandEnv", () => {
+  const env = { HOME: "/home/ada", APP: "tool" };
+  const config = Directory.build("~/.config/$APP", {
+    expandHome: true,
+    expandEnv: true,
+    env,
+  });
+  assert(config.success);
+  assertEquals(config.value.fullPath, "/home/ada/.config/tool");
+
+  const file = File.parse("~/notes.txt", { expandHome: true, env });
+  assert(file.success);
+  assertEquals(file.value.fullPath, "/home/ada/notes.txt");
+
+  // still has to be absolute without the option
+  const literal = Directory.build("~/x", { env });
+  assert(!literal.success);
+  assertEquals(literal.error.kind, "NOT_ABSOLUTE_PATH");
+  const relative = Directory.build("~/x", {
+    expandHome: true,
+    env: { HOME: "home" },
+  });
+  assert(!relative.success);
+  assertEquals(
+    buildDirectoryErrorToString(relative.error),
+    'Environment variable $HOME is not an absolute path: "home"',
+  );
+});
+
+Deno.test("Directory.home() and Directory.cwd()", () => {
+  const fileSystem = new MemoryFileSystem();
+  const home = Directory.home({ env: { HOME: "/home/ada/" }, fileSystem });
+  assert(home.success);
+  assertEquals(home.value.fullPath, "/home/ada");
+  assertEquals(home.value.fileSystem, fileSystem);
+
+  assertEquals(
+    Directory.home({ env: {} }),
+    err<WellKnownDirectoryError>({ kind: "ENV_NOT_SET", name: "HOME" }),
+  );
+
+  const cwd = Directory.cwd();
+  assert(cwd.success);
+  assertEquals(cwd.value.fullPath, Deno.cwd());
+});
+
+Deno.test("Directory.xdgConfigHome() and siblings - fallbacks", () => {
+  const env = {
+    HOME: "/home/ada",
+    XDG_DATA_HOME: "/data",
+    // relative values are ignored
+    XDG_STATE_HOME: "state",
+    XDG_RUNTIME_DIR: "/run/user/1000",
+  };
+  const paths = [
+    Directory.xdgConfigHome("tool", { env }),
+    Directory.xdgDataHome("tool", { env }),
+    Directory.xdgCacheHome(undefined, { env }),
+    Directory.xdgStateHome("tool", { env }),
+    Directory.xdgRuntimeDir("tool", { env }),
+  ].map((directory) => directory.success ? directory.value.fullPath : "");
+  assertEquals(paths, [
+    "/home/ada/.config/tool",
+    "/data/tool",
+    "/home/ada/.cache",
+    "/home/ada/.local/state/tool",
+    "/run/user/1000/tool",
+  ]);
+});
+
+Deno.test("Directory.xdgConfigHome() and siblings - errors", () => {
+  assertEquals(
+    Directory.xdgConfigHome("tool", { env: {} }),
+    err<WellKnownDirectoryError>({ kind: "ENV_NOT_SET", name: "HOME" }),
+  );
+  assertEquals(
+    Directory.xdgRuntimeDir("tool", { env: { HOME: "/home/ada" } }),
+    err<WellKnownDirectoryError>({
+      kind: "ENV_NOT_SET",
+      name: "XDG_RUNTIME_DIR",
+    }),
+  );
+  assertEquals(
+    Directory.xdgRuntimeDir(undefined, { env: { XDG_RUNTIME_DIR: "run" } }),
+    err<WellKnownDirectoryError>({
+      kind: "ENV_NOT_ABSOLUTE",
+      name: "XDG_RUNTIME_DIR",
+      value: "run",
+    }),
+  );
+
+  const invalid = Directory.xdgCacheHome("a/b", { env: { HOME: "/h" } });
+  assert(!invalid.success);
+  assertEquals(
+    wellKnownDirectoryErrorToString(invalid.error),
+    'Invalid app name "a/b": Name cannot contain path separator (/)',
+  );
+});
@@ -9,21 +9,28 @@
  * - APFS
  * - ext2/ext3/ext4
  * - XFS
+ * - Btrfs
+ *
+ * The `targets` option narrows the checks to the filesystems a name has to
+ * work on. Choosing FAT32, exFAT or NTFS explicitly also applies the Windows
+ * rules for reserved device names (`CON`, `NUL`, `COM1`, ...) and trailing
+ * dots or spaces.
  *
  * @see {@link https://en.wikipedia.org/wiki/Comparison_of_file_systems#Limits} - Filesystem limits reference
  *
  * @param name - The filename or directory name to validate
+ * @param options - The target filesystems
  * @returns Result containing the validated name or an array of validation errors
  *
  * @example Valid name
  * ```ts
  * import { assertEquals } from "@std/assert";
- * import { fileNameValidate } from "./filename.ts";
+ * import { fileName, fileNameValidate } from "./filename.ts";
  * import { Result, ok, err } from "@coint/simple";
  *
  * assertEquals(
  *   fileNameValidate("document.txt"),
- *   ok("document.txt")
+ *   ok(fileName("document.txt"))
  * );
  * ```
  *
@@ -43,6 +50,35 @@
  * );
  * ```
  *
+ * @example Choosing target filesystems
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { fileNameValidate, type FileNameValidateError } from "./filename.ts";
+ * import { ok, err } from "@coint/simple";
+ *
+ * // a plain string, as "a:b" is no `FileName` for other filesystems
+ * assertEquals(fileNameValidate("a:b", { targets: ["ext4"] }), ok("a:b"));
+ * assertEquals(
+ *   fileNameValidate("aux.txt", { targets: ["ext4", "ntfs"] }),
+ *   err<FileNameValidateError[]>([
+ *     { kind: "RESERVED_DEVICE_NAME", name: "AUX" },
+ *   ])
+ * );
+ * ```
+ *
+ * @example Unicode normalization
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { fileNameValidate, type FileNameValidateError } from "./filename.ts";
+ * import { err } from "@coint/simple";
+ *
+ * // "é" as "e" and a combining accent, the way HFS+ stores it
+ * assertEquals(
+ *   fileNameValidate("cafe\u0301", { requireNfc: true }),
+ *   err<FileNameValidateError[]>([{ kind: "NOT_NFC", normalized: "café" }])
+ * );
+ * ```
+ *
  * @example Name too long
  * ```ts
  * import { assertEquals } from "@std/assert";
@@ -61,17 +97,33 @@
  */
 import { err, ExhaustiveCaseError, ok, type Result } from "@coint/simple";
 
-export function fileNameValidate(name: string): FileNameValidationResult {
+// Only names valid with the default targets and lengths are `FileName`s
+export function fileNameValidate(
+  name: string,
+  options?: FileNameDefaultValidateOptions,
+): FileNameValidationResult;
+export function fileNameValidate(
+  name: string,
+  options: FileNameValidateOptions,
+): Result<string, FileNameValidateError[]>;
+export function fileNameValidate(
+  name: string,
+  options: FileNameValidateOptions = {},
+): Result<string, FileNameValidateError[]> {
+  const rules = targetRules(options.targets);
   const errors: FileNameValidateError[] = [];
+  // the name as the filesystem stores it, for the lengths
+  const stored = options.lengthNormalization === undefined
+    ? name
+    : name.normalize(options.lengthNormalization);
 
   // Check for empty name
   if (name.length === 0) {
     errors.push({ kind: "EMPTY" });
   }
 
-  // Generic length limit (255 is common across many filesystems)
-  if (name.length > 255) {
-    errors.push({ kind: "TOO_LONG", max: 255, actual: name.length });
+  if (rules.utf16Limit && stored.length > 255) {
+    errors.push({ kind: "TOO_LONG", max: 255, actual: stored.length });
   }
 
   // Check for reserved names
@@ -89,35 +141,51 @@ export function fileNameValidate(name: string): FileNameValidationResult {
     errors.push({ kind: "CONTAINS_NULL" });
   }
 
-  // Check for characters invalid on FAT32/exFAT/NTFS
-  const windowsInvalidChars = ['"', "*", ":", "<", ">", "?", "\\", "|"];
-  const foundInvalidChars = windowsInvalidChars.filter((char) =>
-    name.includes(char)
-  );
-  if (foundInvalidChars.length > 0) {
-    errors.push({
-      kind: "INVALID_CHAR",
-      chars: foundInvalidChars,
-      filesystem: "FAT32/exFAT/NTFS",
-    });
-  }
+  if (rules.windowsChars !== undefined) {
+    const foundInvalidChars = WINDOWS_INVALID_CHARS.filter((char) =>
+      name.includes(char)
+    );
+    if (foundInvalidChars.length > 0) {
+      errors.push({
+        kind: "INVALID_CHAR",
+        chars: foundInvalidChars,
+        filesystem: rules.windowsChars,
+      });
+    }
 
-  // Check for control characters (0x00-0x1F) - invalid on exFAT
-  for (let i = 0; i < name.length; i++) {
-    const code = name.charCodeAt(i);
-    if (code >= 0x00 && code <= 0x1F) {
-      errors.push({ kind: "CONTROL_CHAR", code });
-      break; // Only report once
+    // Control characters (0x00-0x1F)
+    for (let i = 0; i < name.length; i++) {
+      const code = name.charCodeAt(i);
+      if (code >= 0x00 && code <= 0x1F) {
+        errors.push({ kind: "CONTROL_CHAR", code });
+        break; // Only report once
+      }
     }
   }
 
-  // Check UTF-8 byte length for APFS (255 UTF-8 bytes)
-  const utf8ByteLength = new TextEncoder().encode(name).length;
-  if (utf8ByteLength > 255) {
+  const utf8ByteLength = new TextEncoder().encode(stored).length;
+  if (rules.utf8Limit && utf8ByteLength > 255) {
     errors.push({ kind: "UTF8_TOO_LONG", max: 255, actual: utf8ByteLength });
   }
 
-  // Note: ext2/3/4 and XFS only restrict NUL and '/', which are already covered
+  if (rules.windowsNames) {
+    const deviceName = windowsDeviceName(name);
+    if (deviceName !== undefined) {
+      errors.push({ kind: "RESERVED_DEVICE_NAME", name: deviceName });
+    }
+
+    // "." and ".." are already reported as reserved names
+    if (name !== "." && name !== ".." && /[. ]$/.test(name)) {
+      errors.push({ kind: "TRAILING_DOT_OR_SPACE" });
+    }
+  }
+
+  if (options.requireNfc) {
+    const normalized = name.normalize("NFC");
+    if (normalized !== name) {
+      errors.push({ kind: "NOT_NFC", normalized });
+    }
+  }
 
   if (errors.length) {
     return err(errors);
@@ -126,6 +194,107 @@ export function fileNameValidate(name: string): FileNameValidationResult {
   return ok(name);
 }
 
+export type FileNameTarget =
+  | "ext4"
+  | "xfs"
+  | "btrfs"
+  | "apfs"
+  | "fat32"
+  | "exfat"
+  | "ntfs";
+
+export type FileNameValidateOptions = {
+  // the filesystems the name has to be valid on; by default the characters
+  // and lengths of all of them are checked, but not the Windows device names
+  // and trailing dots or spaces
+  targets?: FileNameTarget[];
+  // report names that are not in NFC, which the same name typed on Linux and
+  // on macOS can differ in
+  requireNfc?: boolean;
+  // count the lengths after normalizing, e.g. "NFD" for HFS+ which stores
+  // names decomposed
+  lengthNormalization?: UnicodeNormalization;
+};
+
+// The options that still make a `FileName`, as requiring NFC only rejects
+// more names
+export type FileNameDefaultValidateOptions = FileNameValidateOptions & {
+  targets?: undefined;
+  lengthNormalization?: undefined;
+};
+
+// The forms filesystems store names in
+export type UnicodeNormalization = "NFC" | "NFD";
+
+const FILE_NAME_TARGETS: FileNameTarget[] = [
+  "ext4",
+  "xfs",
+  "btrfs",
+  "apfs",
+  "fat32",
+  "exfat",
+  "ntfs",
+];
+
+// `windows` marks the filesystems with the Windows character set and limits
+const TARGET_RULES: Record<
+  FileNameTarget,
+  { label: string; windows: boolean }
+> = {
+  ext4: { label: "ext4", windows: false },
+  xfs: { label: "XFS", windows: false },
+  btrfs: { label: "Btrfs", windows: false },
+  apfs: { label: "APFS", windows: false },
+  fat32: { label: "FAT32", windows: true },
+  exfat: { label: "exFAT", windows: true },
+  ntfs: { label: "NTFS", windows: true },
+};
+
+const WINDOWS_INVALID_CHARS = ['"', "*", ":", "<", ">", "?", "\\", "|"];
+
+const WINDOWS_RESERVED_NAMES = new Set([
+  "CON",
+  "PRN",
+  "AUX",
+  "NUL",
+  ...[1, 2, 3, 4, 5, 6, 7, 8, 9].map((n) => `COM${n}`),
+  ...[1, 2, 3, 4, 5, 6, 7, 8, 9].map((n) => `LPT${n}`),
+]);
+
+type TargetRules = {
+  // the labels of the targets with the Windows character set, like
+  // "FAT32/NTFS", undefined when there are none
+  windowsChars: string | undefined;
+  // FAT32, exFAT and NTFS count UTF-16 code units
+  utf16Limit: boolean;
+  // ext4, XFS, Btrfs and APFS count UTF-8 bytes
+  utf8Limit: boolean;
+  // reserved device names and trailing dots or spaces, which apply only to
+  // explicitly chosen targets
+  windowsNames: boolean;
+};
+
+function targetRules(targets: FileNameTarget[] | undefined): TargetRules {
+  const rules = (targets ?? FILE_NAME_TARGETS).map((target) =>
+    TARGET_RULES[target]
+  );
+  const windows = rules.filter((rule) => rule.windows);
+  return {
+    windowsChars: windows.length > 0
+      ? windows.map((rule) => rule.label).join("/")
+      : undefined,
+    utf16Limit: windows.length > 0,
+    utf8Limit: rules.some((rule) => !rule.windows),
+    windowsNames: targets !== undefined && windows.length > 0,
+  };
+}
+
+// Device names are reserved with any extension too, e.g. "NUL.txt"
+function windowsDeviceName(name: string): string | undefined {
+  const baseName = name.split(".")[0]?.trimEnd().toUpperCase() ?? "";
+  return WINDOWS_RESERVED_NAMES.has(baseName) ? baseName : undefined;
+}
+
 export type FileNameValidateError =
   | { kind: "TOO_LONG"; max: number; actual: number }
   | { kind: "EMPTY" }
@@ -134,9 +303,70 @@ export type FileNameValidateError =
   | { kind: "CONTAINS_NULL" }
   | { kind: "INVALID_CHAR"; chars: string[]; filesystem: string }
   | { kind: "CONTROL_CHAR"; code: number }
-  | { kind: "UTF8_TOO_LONG"; max: number; actual: number };
+  | { kind: "UTF8_TOO_LONG"; max: number; actual: number }
+  // Windows device names like "CON" or "COM1", with any extension
+  | { kind: "RESERVED_DEVICE_NAME"; name: string }
+  | { kind: "TRAILING_DOT_OR_SPACE" }
+  | { kind: "NOT_NFC"; normalized: string };
+
+export type FileNameValidationResult = Result<
+  FileName,
+  FileNameValidateError[]
+>;
+
+declare const fileNameBrand: unique symbol;
+
+// A name accepted by fileNameValidate with the default rules; only validation
+// and fileName() make one, so paths can be built from it without checking it
+// again
+export type FileName = string & { readonly [fileNameBrand]: true };
+
+type WindowsInvalidChar = '"' | "*" | ":" | "<" | ">" | "?" | "\\" | "|";
 
-export type FileNameValidationResult = Result<string, FileNameValidateError[]>;
+// `N` when the literal is a valid name as far as the type system can tell,
+// never otherwise; wide `string`s are never accepted
+export type FileNameLiteral<N extends string> = string extends N ? never
+  : N extends "" | "." | ".." ? never
+  : N extends `${string}${"/" | "\0" | WindowsInvalidChar}${string}` ? never
+  : N;
+
+/**
+ * A `FileName` from a literal, checked when compiling.
+ *
+ * Only characters are checked by the type, so the name is validated again at
+ * runtime, where an invalid one, such as a name too long, is a bug and throws.
+ *
+ * @example Building paths from known names
+ * ```ts
+ * import { assert, assertEquals, assertThrows } from "@std/assert";
+ * import { fileName } from "./filename.ts";
+ * import { Directory, File } from "./path.ts";
+ *
+ * const root = Directory.build("/");
+ * assert(root.success);
+ * const etc = new Directory(fileName("etc"), root.value);
+ * const hosts = new File(fileName("hosts"), etc);
+ * assertEquals(hosts.fullPath, "/etc/hosts");
+ *
+ * // rejected when compiling, and throws if run anyway
+ * assertThrows(() => {
+ *   // @ts-expect-error "a/b" is not a name
+ *   fileName("a/b");
+ * });
+ * ```
+ */
+export function fileName<const N extends string>(
+  name: FileNameLiteral<N>,
+): FileName {
+  const validated = fileNameValidate(name);
+  if (!validated.success) {
+    const message = fileNameValidationErrorsToStrings(validated.error).join(
+      ", ",
+    );
+    throw new TypeError(`Invalid file name literal "${name}": ${message}`);
+  }
+  return validated.value;
+}
 
 export function fileNameValidationErrorToString(
   error: FileNameValidateError,
@@ -169,6 +399,15 @@ export function fileNameValidationErrorToString(
     case "UTF8_TOO_LONG": {
       return `Name too long in UTF-8 (${error.actual} bytes, max ${error.max})`;
     }
+    case "RESERVED_DEVICE_NAME": {
+      return `"${error.name}" is a reserved device name on Windows`;
+    }
+    case "TRAILING_DOT_OR_SPACE": {
+      return "Name cannot end with a dot or a space on Windows";
+    }
+    case "NOT_NFC": {
+      return `Name is not in Unicode NFC, expected "${error.normalized}"`;
+    }
     default: {
       throw new ExhaustiveCaseError(error);
     }
@@ -180,3 +419,258 @@ export function fileNameValidationErrorsToStrings(
 ): string[] {
   return errors.map(fileNameValidationErrorToString);
 }
+
+export type FileNameEqualsOptions = {
+  // treat canonically equivalent names, like NFC and NFD "café", as equal the
+  // way APFS and HFS+ do; false by default
+  normalization?: boolean;
+  // false to compare like FAT32, exFAT, NTFS and the default APFS; true by
+  // default
+  caseSensitive?: boolean;
+};
+
+// Compares names, or whole paths, the way a filesystem would
+export function fileNameEquals(
+  a: string,
+  b: string,
+  options: FileNameEqualsOptions = {},
+): boolean {
+  return fileNameCompareKey(a, options) === fileNameCompareKey(b, options);
+}
+
+function fileNameCompareKey(
+  name: string,
+  { normalization = false, caseSensitive = true }: FileNameEqualsOptions,
+): string {
+  const normalized = normalization ? name.normalize("NFC") : name;
+  return caseSensitive ? normalized : normalized.toLowerCase();
+}
+
+export type FileNameSanitizeOptions = {
+  // the filesystems the name has to be valid on, like fileNameValidate
+  targets?: FileNameTarget[];
+  // put in place of invalid characters, and used as the name when nothing
+  // is left; has to be a valid name itself, "_" by default
+  replacement?: string;
+  // the longest name in UTF-8 bytes, at most and by default 255
+  maxBytes?: number;
+};
+
+export type FileNameSanitizeChange =
+  | { kind: "REPLACED_CHARS"; chars: string[] }
+  | { kind: "REMOVED_CONTROL_CHARS"; count: number }
+  | { kind: "TRIMMED_TRAILING_DOTS_OR_SPACES" }
+  // the name was empty, "." or ".."
+  | { kind: "REPLACED_NAME"; name: string }
+  | { kind: "RENAMED_DEVICE_NAME"; name: string }
+  | { kind: "TRUNCATED"; bytes: number };
+
+// A `FileName` unless sanitized for chosen targets
+export type FileNameSanitized<N extends string = FileName> = {
+  name: N;
+  // empty when the input was already valid
+  changes: FileNameSanitizeChange[];
+};
+
+export type FileNameSanitizeError =
+  | {
+    kind: "INVALID_REPLACEMENT";
+    replacement: string;
+    errors: FileNameValidateError[];
+  }
+  // too small to hold any valid name
+  | { kind: "INVALID_MAX_BYTES"; maxBytes: number };
+
+/**
+ * Turns any text into a name that passes `fileNameValidate` with the same
+ * targets, keeping as much of it as possible.
+ *
+ * Control characters are removed, other invalid characters are replaced, and
+ * Windows device names get the replacement appended to their base name. Names
+ * that are too long are cut between code points, keeping their extension.
+ *
+ * @example Naming a download after its title
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { fileName, fileNameSanitize } from "./filename.ts";
+ * import { ok } from "@coint/simple";
+ *
+ * assertEquals(
+ *   fileNameSanitize("Q3 report: draft?.pdf", { targets: ["ntfs"] }),
+ *   ok({
+ *     name: fileName("Q3 report_ draft_.pdf"),
+ *     changes: [{ kind: "REPLACED_CHARS", chars: [":", "?"] }],
+ *   }),
+ * );
+ * ```
+ */
+export function fileNameSanitize(
+  input: string,
+  options?: FileNameSanitizeOptions & { targets?: undefined },
+): Result<FileNameSanitized, FileNameSanitizeError>;
+export function fileNameSanitize(
+  input: string,
+  options: FileNameSanitizeOptions,
+): Result<FileNameSanitized<string>, FileNameSanitizeError>;
+export function fileNameSanitize(
+  input: string,
+  options: FileNameSanitizeOptions = {},
+): Result<FileNameSanitized<string>, FileNameSanitizeError> {
+  const { targets, replacement = "_", maxBytes = 255 } = options;
+  const validReplacement = fileNameValidate(replacement, { targets });
+  if (!validReplacement.success) {
+    return err({
+      kind: "INVALID_REPLACEMENT",
+      replacement,
+      errors: validReplacement.error,
+    });
+  }
+  if (!Number.isInteger(maxBytes) || maxBytes < 1) {
+    return err({ kind: "INVALID_MAX_BYTES", maxBytes });
+  }
+
+  const rules = targetRules(targets);
+  const changes: FileNameSanitizeChange[] = [];
+  const replaced = new Set<string>();
+  let removed = 0;
+  let name = "";
+  for (const char of input) {
+    const code = char.charCodeAt(0);
+    if (code <= 0x1F || code === 0x7F) {
+      removed += 1;
+    } else if (
+      char === "/" ||
+      (rules.windowsChars !== undefined &&
+        WINDOWS_INVALID_CHARS.includes(char))
+    ) {
+      replaced.add(char);
+      name += replacement;
+    } else {
+      name += char;
+    }
+  }
+  if (replaced.size > 0) {
+    changes.push({ kind: "REPLACED_CHARS", chars: [...replaced] });
+  }
+  if (removed > 0) {
+    changes.push({ kind: "REMOVED_CONTROL_CHARS", count: removed });
+  }
+
+  const trimTrailing = () => {
+    const trimmed = name.replace(/[. ]+$/u, "");
+    if (
+      rules.windowsNames && trimmed !== name && name !== "." && name !== ".."
+    ) {
+      name = trimmed;
+      if (
+        !changes.some(({ kind }) => kind === "TRIMMED_TRAILING_DOTS_OR_SPACES")
+      ) {
+        changes.push({ kind: "TRIMMED_TRAILING_DOTS_OR_SPACES" });
+      }
+    }
+  };
+  trimTrailing();
+
+  if (name === "" || name === "." || name === "..") {
+    changes.push({ kind: "REPLACED_NAME", name });
+    name = replacement;
+  }
+
+  const deviceName = rules.windowsNames ? windowsDeviceName(name) : undefined;
+  if (deviceName !== undefined) {
+    // "CON.txt" becomes "CON_.txt"
+    const base = name.split(".")[0] ?? "";
+    name = base + replacement + name.substring(base.length);
+    changes.push({ kind: "RENAMED_DEVICE_NAME", name: deviceName });
+  }
+
+  const bytes = utf8Length(name);
+  const maxUnits = rules.utf16Limit ? 255 : Infinity;
+  const limit = Math.min(maxBytes, 255);
+  if (bytes > limit || name.length > maxUnits) {
+    // the suffix is kept when there is room for at least one more character
+    const suffix = fileNameSuffix(name);
+    const keepSuffix = utf8Length(suffix) < limit && suffix.length < maxUnits;
+    name = keepSuffix
+      ? truncate(
+        fileNameStem(name),
+        limit - utf8Length(suffix),
+        maxUnits - suffix.length,
+      ) + suffix
+      : truncate(name, limit, maxUnits);
+    changes.push({ kind: "TRUNCATED", bytes });
+    trimTrailing();
+  }
+
+  // a limit of a few bytes can still cut the name down to something invalid
+  const validated = fileNameValidate(name, { targets });
+  if (!validated.success) {
+    return err({ kind: "INVALID_MAX_BYTES", maxBytes });
+  }
+  return ok({ name: validated.value, changes });
+}
+
+export function fileNameSanitizeErrorToString(
+  error: FileNameSanitizeError,
+): string {
+  switch (error.kind) {
+    case "INVALID_REPLACEMENT": {
+      const message = fileNameValidationErrorsToStrings(error.errors).join(
+        ", ",
+      );
+      return `Invalid replacement "${error.replacement}": ${message}`;
+    }
+    case "INVALID_MAX_BYTES": {
+      return `Cannot fit a valid name in ${error.maxBytes} bytes`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+function utf8Length(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+// The longest start of `text` within both limits, cut between code points
+function truncate(text: string, maxBytes: number, maxUnits: number): string {
+  let result = "";
+  let bytes = 0;
+  for (const char of text) {
+    const charBytes = utf8Length(char);
+    if (
+      bytes + charBytes > maxBytes || result.length + char.length > maxUnits
+    ) {
+      break;
+    }
+    result += char;
+    bytes += charBytes;
+  }
+  return result;
+}
+
+// The last ".xxx" of a name, "" for names without one and for dotfiles like
+// ".bashrc"
+export function fileNameSuffix(name: string): string {
+  const index = name.lastIndexOf(".");
+  if (index > 0 && index < name.length - 1) {
+    return name.substring(index);
+  }
+  return "";
+}
+
+// Every ".xxx" of a name, e.g. [".tar", ".gz"] for "archive.tar.gz"
+export function fileNameSuffixes(name: string): string[] {
+  if (name.endsWith(".")) {
+    return [];
+  }
+  const [_, ...suffixes] = name.replace(/^\.+/, "").split(".");
+  return suffixes.map((suffix) => `.${suffix}`);
+}
+
+// The name without its last suffix
+export function fileNameStem(name: string): string {
+  const suffix = fileNameSuffix(name);
+  return suffix ? name.substring(0, name.length - suffix.length) : name;
+}
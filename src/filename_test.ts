@@ -1,6 +1,20 @@
-import { assertEquals } from "@std/assert";
-import { fileNameValidate, type FileNameValidateError } from "./filename.ts";
-import { err, ok } from "@coint/simple";
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import {
+  type FileName,
+  fileName,
+  fileNameEquals,
+  fileNameSanitize,
+  type FileNameSanitized,
+  type FileNameSanitizeError,
+  fileNameSanitizeErrorToString,
+  fileNameStem,
+  fileNameSuffix,
+  fileNameSuffixes,
+  fileNameValidate,
+  type FileNameValidateError,
+  fileNameValidationErrorToString,
+} from "./filename.ts";
+import { err, ok, type Result } from "@coint/simple";
 
 Deno.test("validate - empty name", () => {
   assertEquals(
@@ -10,9 +24,9 @@ Deno.test("validate - empty name", () => {
 });
 
 Deno.test("validate - valid names", () => {
-  assertEquals(fileNameValidate("document.txt"), ok("document.txt"));
-  assertEquals(fileNameValidate("photo.jpg"), ok("photo.jpg"));
-  assertEquals(fileNameValidate("my-file_123"), ok("my-file_123"));
+  assertEquals(fileNameValidate("document.txt"), ok(fileName("document.txt")));
+  assertEquals(fileNameValidate("photo.jpg"), ok(fileName("photo.jpg")));
+  assertEquals(fileNameValidate("my-file_123"), ok(fileName("my-file_123")));
 });
 
 Deno.test("validate - reserved names", () => {
@@ -89,7 +103,11 @@ Deno.test("validate - length exceeds 255 characters", () => {
 
 Deno.test("validate - exactly 255 characters", () => {
   const maxName = "a".repeat(255);
-  assertEquals(fileNameValidate(maxName), ok(maxName));
+  // too long for a literal, so compared as a plain string
+  assertEquals<Result<string, FileNameValidateError[]>>(
+    fileNameValidate(maxName),
+    ok(maxName),
+  );
 });
 
 Deno.test("validate - UTF-8 byte length exceeds 255", () => {
@@ -120,3 +138,277 @@ Deno.test("validate - multiple errors", () => {
     ]),
   );
 });
+
+Deno.test("validate - Linux targets", () => {
+  assertEquals(
+    fileNameValidate("a:b", { targets: ["ext4", "xfs", "btrfs"] }),
+    ok("a:b"),
+  );
+  assertEquals(
+    fileNameValidate("tab\tname", { targets: ["ext4"] }),
+    ok("tab\tname"),
+  );
+  assertEquals(fileNameValidate("aux.", { targets: ["ext4"] }), ok("aux."));
+  assertEquals(
+    fileNameValidate("a/b\0", { targets: ["ext4"] }),
+    err<FileNameValidateError[]>([
+      { kind: "CONTAINS_PATH_SEPARATOR" },
+      { kind: "CONTAINS_NULL" },
+    ]),
+  );
+
+  // bytes count, not characters
+  const emojiName = "😀".repeat(64);
+  assertEquals(
+    fileNameValidate(emojiName, { targets: ["apfs"] }),
+    err<FileNameValidateError[]>([
+      { kind: "UTF8_TOO_LONG", max: 255, actual: 256 },
+    ]),
+  );
+  assertEquals(
+    fileNameValidate(emojiName, { targets: ["ntfs"] }),
+    ok(emojiName),
+  );
+});
+
+Deno.test("validate - only the default rules make a FileName", () => {
+  const linux = fileNameValidate("a:b", { targets: ["ext4"] });
+  assert(linux.success);
+  // @ts-expect-error "a:b" is not a name on every filesystem
+  const name: FileName = linux.value;
+  assertEquals(fileNameValidate(name).success, false);
+
+  const sanitized = fileNameSanitize("a:b", { targets: ["ext4"] });
+  assert(sanitized.success);
+  // @ts-expect-error sanitized for ext4 only
+  const sanitizedName: FileName = sanitized.value.name;
+  assertEquals(sanitizedName, "a:b");
+});
+
+Deno.test("validate - Windows targets", () => {
+  assertEquals(
+    fileNameValidate("a:b", { targets: ["ext4", "fat32", "ntfs"] }),
+    err<FileNameValidateError[]>([
+      { kind: "INVALID_CHAR", chars: [":"], filesystem: "FAT32/NTFS" },
+    ]),
+  );
+  assertEquals(
+    fileNameValidate("Com1.tar.gz", { targets: ["exfat"] }),
+    err<FileNameValidateError[]>([
+      { kind: "RESERVED_DEVICE_NAME", name: "COM1" },
+    ]),
+  );
+  assertEquals(
+    fileNameValidate("lpt9 ", { targets: ["ntfs"] }),
+    err<FileNameValidateError[]>([
+      { kind: "RESERVED_DEVICE_NAME", name: "LPT9" },
+      { kind: "TRAILING_DOT_OR_SPACE" },
+    ]),
+  );
+  assertEquals(fileNameValidate("COM0", { targets: ["ntfs"] }), ok("COM0"));
+  assertEquals(
+    fileNameValidate("console", { targets: ["ntfs"] }),
+    ok("console"),
+  );
+  assertEquals(
+    fileNameValidate("..", { targets: ["ntfs"] }),
+    err<FileNameValidateError[]>([{ kind: "RESERVED", name: ".." }]),
+  );
+});
+
+Deno.test("validate - Windows names are allowed without targets", () => {
+  assertEquals(fileNameValidate("aux.txt"), ok(fileName("aux.txt")));
+  assertEquals(fileNameValidate("name."), ok(fileName("name.")));
+});
+
+Deno.test("validate - Unicode normalization", () => {
+  const nfd = "cafe\u0301";
+  assertEquals(fileNameValidate(nfd), ok(fileName(nfd)));
+  assertEquals(
+    fileNameValidate(nfd, { requireNfc: true }),
+    err<FileNameValidateError[]>([{ kind: "NOT_NFC", normalized: "café" }]),
+  );
+  assertEquals(
+    fileNameValidationErrorToString({ kind: "NOT_NFC", normalized: "café" }),
+    'Name is not in Unicode NFC, expected "café"',
+  );
+
+  // 255 units in NFC, 510 once decomposed
+  const long = "é".repeat(255);
+  assertEquals(fileNameValidate(long, { targets: ["ntfs"] }), ok(long));
+  assertEquals(
+    fileNameValidate(long, {
+      targets: ["ntfs"],
+      lengthNormalization: "NFD",
+    }),
+    err<FileNameValidateError[]>([
+      { kind: "TOO_LONG", max: 255, actual: 510 },
+    ]),
+  );
+});
+
+Deno.test("equals - normalization and case", () => {
+  assertEquals(fileNameEquals("café", "cafe\u0301"), false);
+  assertEquals(
+    fileNameEquals("café", "cafe\u0301", { normalization: true }),
+    true,
+  );
+  assertEquals(fileNameEquals("README", "readme"), false);
+  assertEquals(
+    fileNameEquals("README", "readme", { caseSensitive: false }),
+    true,
+  );
+});
+
+Deno.test("fileName - literals", () => {
+  const name: FileName = fileName("config.json");
+  assertEquals(name, "config.json");
+
+  // control characters are only caught at runtime
+  assertThrows(
+    () => fileName("bad\x01name"),
+    TypeError,
+    'Invalid file name literal "bad\x01name": ' +
+      "Name contains control character (0x01)",
+  );
+});
+
+Deno.test("sanitize - valid names are unchanged", () => {
+  assertEquals(
+    fileNameSanitize("report.pdf"),
+    ok<FileNameSanitized>({ name: fileName("report.pdf"), changes: [] }),
+  );
+  // trailing dots are only a problem on explicit Windows targets
+  assertEquals(
+    fileNameSanitize("end.", { targets: ["ext4"] }),
+    ok<FileNameSanitized>({ name: fileName("end."), changes: [] }),
+  );
+});
+
+Deno.test("sanitize - characters", () => {
+  assertEquals(
+    fileNameSanitize("a/b\\c\n\0d", { replacement: "-" }),
+    ok<FileNameSanitized>({
+      name: fileName("a-b-cd"),
+      changes: [
+        { kind: "REPLACED_CHARS", chars: ["/", "\\"] },
+        { kind: "REMOVED_CONTROL_CHARS", count: 2 },
+      ],
+    }),
+  );
+  // only "/" is invalid on Linux filesystems
+  assertEquals(
+    fileNameSanitize("what?", { targets: ["ext4", "xfs"] }),
+    ok<FileNameSanitized<string>>({ name: "what?", changes: [] }),
+  );
+});
+
+Deno.test("sanitize - reserved names", () => {
+  const targets = ["ntfs" as const];
+  assertEquals(
+    fileNameSanitize("\n", { targets }),
+    ok<FileNameSanitized>({
+      name: fileName("_"),
+      changes: [
+        { kind: "REMOVED_CONTROL_CHARS", count: 1 },
+        { kind: "REPLACED_NAME", name: "" },
+      ],
+    }),
+  );
+  assertEquals(
+    fileNameSanitize("..", { targets }),
+    ok<FileNameSanitized>({
+      name: fileName("_"),
+      changes: [{ kind: "REPLACED_NAME", name: ".." }],
+    }),
+  );
+  assertEquals(
+    fileNameSanitize("con.txt", { targets }),
+    ok<FileNameSanitized>({
+      name: fileName("con_.txt"),
+      changes: [{ kind: "RENAMED_DEVICE_NAME", name: "CON" }],
+    }),
+  );
+  assertEquals(
+    fileNameSanitize("notes. . ", { targets }),
+    ok<FileNameSanitized>({
+      name: fileName("notes"),
+      changes: [{ kind: "TRIMMED_TRAILING_DOTS_OR_SPACES" }],
+    }),
+  );
+});
+
+Deno.test("sanitize - truncates to whole code points", () => {
+  // "é" takes 2 bytes in UTF-8
+  const long = fileNameSanitize("é".repeat(200) + ".txt");
+  assert(long.success);
+  assertEquals(long.value.name, "é".repeat(125) + ".txt");
+  assertEquals(long.value.changes, [{ kind: "TRUNCATED", bytes: 404 }]);
+
+  // an emoji takes 4 bytes and 2 UTF-16 code units
+  const emoji = fileNameSanitize("😀😀😀.md", { maxBytes: 14 });
+  assert(emoji.success);
+  assertEquals(emoji.value.name, "😀😀.md");
+
+  // the extension is dropped when nothing else would fit
+  const short = fileNameSanitize("document.markdown", { maxBytes: 5 });
+  assert(short.success);
+  assertEquals(short.value.name, "docum");
+
+  for (const result of [long, emoji, short]) {
+    assert(result.success);
+    assert(fileNameValidate(result.value.name).success);
+  }
+});
+
+Deno.test("sanitize - errors", () => {
+  const replacement = fileNameSanitize("a:b", {
+    targets: ["ntfs"],
+    replacement: ":",
+  });
+  assert(!replacement.success);
+  assertEquals(replacement.error.kind, "INVALID_REPLACEMENT");
+  assertEquals(
+    fileNameSanitizeErrorToString(replacement.error),
+    'Invalid replacement ":": Invalid characters for NTFS: ":"',
+  );
+
+  assertEquals(
+    fileNameSanitize("name", { maxBytes: 0 }),
+    err<FileNameSanitizeError>({ kind: "INVALID_MAX_BYTES", maxBytes: 0 }),
+  );
+  // a device name cannot be cut short of its replacement
+  assertEquals(
+    fileNameSanitize("NUL", { targets: ["ntfs"], maxBytes: 3 }),
+    err<FileNameSanitizeError>({ kind: "INVALID_MAX_BYTES", maxBytes: 3 }),
+  );
+});
+
+Deno.test("suffix - regular names", () => {
+  assertEquals(fileNameSuffix("report.pdf"), ".pdf");
+  assertEquals(fileNameSuffixes("report.pdf"), [".pdf"]);
+  assertEquals(fileNameStem("report.pdf"), "report");
+
+  assertEquals(fileNameSuffix("archive.tar.gz"), ".gz");
+  assertEquals(fileNameSuffixes("archive.tar.gz"), [".tar", ".gz"]);
+  assertEquals(fileNameStem("archive.tar.gz"), "archive.tar");
+});
+
+Deno.test("suffix - names without suffix", () => {
+  assertEquals(fileNameSuffix("Makefile"), "");
+  assertEquals(fileNameSuffixes("Makefile"), []);
+  assertEquals(fileNameStem("Makefile"), "Makefile");
+
+  assertEquals(fileNameSuffix(".bashrc"), "");
+  assertEquals(fileNameSuffixes(".bashrc"), []);
+  assertEquals(fileNameStem(".bashrc"), ".bashrc");
+
+  assertEquals(fileNameSuffix("name."), "");
+  assertEquals(fileNameSuffixes("name."), []);
+});
+
+Deno.test("suffix - dotfile with suffix", () => {
+  assertEquals(fileNameSuffix(".config.json"), ".json");
+  assertEquals(fileNameSuffixes(".config.json"), [".json"]);
+  assertEquals(fileNameStem(".config.json"), ".config");
+});
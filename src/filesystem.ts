@@ -0,0 +1,164 @@
+/**
+ * The filesystem operations `Directory`, `File` and `SymbolicLink` go through.
+ *
+ * Implementations follow the semantics of the matching `Deno.*` functions and
+ * report failures by throwing the same `Deno.errors` classes, so every backend
+ * produces the same typed errors. {@link denoFileSystem} is the default;
+ * `MemoryFileSystem` keeps everything in memory for tests.
+ *
+ * A backend is chosen when building a root path and is inherited by every path
+ * derived from it:
+ *
+ * @example Using an in-memory filesystem
+ * ```ts
+ * import { assert, assertEquals } from "@std/assert";
+ * import { MemoryFileSystem } from "./memory.ts";
+ * import { Directory } from "./path.ts";
+ *
+ * const dir = Directory.build("/app", { fileSystem: new MemoryFileSystem() });
+ * assert(dir.success);
+ * await dir.value.mkdir();
+ *
+ * const file = dir.value.file("config.json");
+ * assert(file.success);
+ * await file.value.write("{}");
+ *
+ * const content = await file.value.read();
+ * assert(content.success);
+ * assertEquals(content.value, "{}");
+ * ```
+ */
+export interface FileSystem {
+  // follows symlinks
+  stat(path: string): Promise<Deno.FileInfo>;
+  // does not follow a symlink at the last segment
+  lstat(path: string): Promise<Deno.FileInfo>;
+  // creates a single directory, the parent must exist
+  mkdir(path: string): Promise<void>;
+  // create a uniquely named directory or empty file and return its path
+  makeTempDir(options: Deno.MakeTempOptions): Promise<string>;
+  makeTempFile(options: Deno.MakeTempOptions): Promise<string>;
+  readDir(path: string): AsyncIterable<Deno.DirEntry>;
+  readTextFile(path: string): Promise<string>;
+  // creates or truncates the file
+  writeTextFile(path: string, data: string): Promise<void>;
+  readFile(path: string): Promise<Uint8Array>;
+  // creates or truncates the file; with `createNew` an existing file throws
+  // AlreadyExists, and `mode` applies only when the file is created
+  writeFile(
+    path: string,
+    data: Uint8Array,
+    options?: { createNew?: boolean; mode?: number },
+  ): Promise<void>;
+  // throws NotFound for a missing file unless `create` is set
+  appendFile(
+    path: string,
+    data: Uint8Array,
+    options: { create: boolean },
+  ): Promise<void>;
+  // throws IsADirectory for a directory, the file closes with the stream
+  openReadable(path: string): Promise<ReadableStream<Uint8Array>>;
+  // creates or truncates the file, which closes with the stream
+  openWritable(path: string): Promise<WritableStream<Uint8Array>>;
+  symlink(target: string, path: string): Promise<void>;
+  readLink(path: string): Promise<string>;
+  realPath(path: string): Promise<string>;
+  // does not follow a symlink at the last segment, throws an error with code
+  // "ENOTEMPTY" for a non-empty directory unless `recursive` is set
+  remove(path: string, options?: { recursive?: boolean }): Promise<void>;
+  // throws an error with code "EXDEV" across devices
+  rename(oldPath: string, newPath: string): Promise<void>;
+  // creates or truncates the destination
+  copyFile(fromPath: string, toPath: string): Promise<void>;
+  utime(path: string, atime: Date, mtime: Date): Promise<void>;
+  chmod(path: string, mode: number): Promise<void>;
+  // null leaves the owner or group unchanged
+  chown(path: string, uid: number | null, gid: number | null): Promise<void>;
+  // flushes a file or directory to disk
+  sync(path: string): Promise<void>;
+  // takes an advisory lock without waiting, creating the file when missing;
+  // undefined when it is held elsewhere, and NotSupported is thrown where the
+  // platform has no advisory locks
+  tryLock(
+    path: string,
+    exclusive: boolean,
+  ): Promise<{ unlock(): Promise<void> } | undefined>;
+  // events for `path` and the entries below it until the watcher is closed,
+  // throws synchronously when `path` does not exist
+  watch(
+    path: string,
+    options: { recursive: boolean },
+  ): AsyncIterable<Deno.FsEvent> & { close(): void };
+}
+
+export const denoFileSystem: FileSystem = {
+  stat: (path) => Deno.stat(path),
+  lstat: (path) => Deno.lstat(path),
+  mkdir: (path) => Deno.mkdir(path),
+  makeTempDir: (options) => Deno.makeTempDir(options),
+  makeTempFile: (options) => Deno.makeTempFile(options),
+  readDir: (path) => Deno.readDir(path),
+  readTextFile: (path) => Deno.readTextFile(path),
+  writeTextFile: (path, data) => Deno.writeTextFile(path, data),
+  readFile: (path) => Deno.readFile(path),
+  writeFile: (path, data, options) => Deno.writeFile(path, data, options),
+  appendFile: (path, data, { create }) =>
+    Deno.writeFile(path, data, { append: true, create }),
+  openReadable: async (path) => {
+    const file = await Deno.open(path);
+    try {
+      // opening a directory for reading succeeds on POSIX
+      if ((await file.stat()).isDirectory) {
+        throw new Deno.errors.IsADirectory(`Is a directory: '${path}'`);
+      }
+    } catch (error) {
+      file.close();
+      throw error;
+    }
+    return file.readable;
+  },
+  openWritable: async (path) => {
+    const file = await Deno.open(path, {
+      write: true,
+      create: true,
+      truncate: true,
+    });
+    return file.writable;
+  },
+  symlink: (target, path) => Deno.symlink(target, path),
+  readLink: (path) => Deno.readLink(path),
+  realPath: (path) => Deno.realPath(path),
+  remove: (path, options) => Deno.remove(path, options),
+  rename: (oldPath, newPath) => Deno.rename(oldPath, newPath),
+  copyFile: (fromPath, toPath) => Deno.copyFile(fromPath, toPath),
+  utime: (path, atime, mtime) => Deno.utime(path, atime, mtime),
+  chmod: (path, mode) => Deno.chmod(path, mode),
+  chown: (path, uid, gid) => Deno.chown(path, uid, gid),
+  sync: async (path) => {
+    using file = await Deno.open(path);
+    await file.sync();
+  },
+  tryLock: async (path, exclusive) => {
+    // writable, as some platforms refuse an exclusive lock otherwise
+    const file = await Deno.open(path, { write: true, create: true });
+    try {
+      if (!(await file.tryLock(exclusive))) {
+        file.close();
+        return undefined;
+      }
+    } catch (error) {
+      file.close();
+      throw error;
+    }
+    return {
+      unlock: async () => {
+        try {
+          await file.unlock();
+        } finally {
+          file.close();
+        }
+      },
+    };
+  },
+  watch: (path, options) => Deno.watchFs(path, options),
+};
@@ -0,0 +1,546 @@
+/**
+ * Parses a glob pattern into a {@link GlobPattern} that can be matched against
+ * paths with {@link matches} or expanded on disk with `Directory.glob`.
+ *
+ * Supported syntax:
+ * - `*` - any sequence of characters within a path segment
+ * - `?` - a single character within a path segment
+ * - `**` - zero or more path segments (must be a whole segment)
+ * - `[abc]`, `[a-z]`, `[!abc]`, `[^abc]` - character classes
+ * - `{a,b}` - brace expansion, may be nested
+ * - `\` - escapes the next character
+ *
+ * Wildcards do not match names starting with `.` unless the `dot` option is set
+ * or the pattern segment itself starts with `.`.
+ *
+ * @param pattern - The glob pattern, relative or absolute
+ * @param options - Parse options
+ * @returns Result containing the parsed pattern or a syntax error
+ *
+ * @example Matching a path
+ * ```ts
+ * import { assert } from "@std/assert";
+ * import { globParse, matches } from "./glob.ts";
+ * import { Directory } from "./path.ts";
+ *
+ * const pattern = globParse("src/components/*.{ts,tsx}");
+ * assert(pattern.success);
+ *
+ * const dir = Directory.build("/src/components");
+ * assert(dir.success);
+ * const file = dir.value.file("button.tsx");
+ * assert(file.success);
+ *
+ * assert(matches(pattern.value, file.value));
+ * ```
+ *
+ * @example Syntax error
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { globParse, type GlobSyntaxError } from "./glob.ts";
+ * import { err } from "@coint/simple";
+ *
+ * assertEquals(
+ *   globParse("src/{a,b"),
+ *   err<GlobSyntaxError>({ kind: "UNCLOSED_BRACE", position: 4 }),
+ * );
+ * ```
+ */
+import { err, ExhaustiveCaseError, ok, type Result } from "@coint/simple";
+import type { Directory, Path } from "./path.ts";
+import { pathSegments } from "./relative.ts";
+
+export function globParse(
+  pattern: string,
+  options: GlobOptions = {},
+): Result<GlobPattern, GlobSyntaxError> {
+  const { dot = false } = options;
+
+  if (pattern.length === 0) {
+    return err({ kind: "EMPTY_PATTERN" });
+  }
+
+  const expanded = expandBraces(pattern, 0, false);
+  if (!expanded.success) {
+    return expanded;
+  }
+
+  const alternatives: GlobAlternative[] = [];
+  for (const expandedPattern of expanded.value.expansions) {
+    const alternative = parseAlternative(expandedPattern, dot);
+    if (!alternative.success) {
+      return alternative;
+    }
+    alternatives.push(alternative.value);
+  }
+
+  return ok({ source: pattern, alternatives, dot });
+}
+
+/**
+ * Checks whether a path matches a parsed glob pattern, without touching disk.
+ *
+ * Absolute patterns are matched against the full path. Relative patterns are
+ * matched against the path relative to `base`, which defaults to the root
+ * directory; paths outside of `base` never match a relative pattern.
+ */
+export function matches(
+  pattern: GlobPattern,
+  path: Path,
+  base?: Directory,
+): boolean {
+  const segments = pathSegments(path);
+
+  if (matchSegments(pattern, globStart(pattern, true), segments)) {
+    return true;
+  }
+
+  const baseSegments = base ? pathSegments(base) : [];
+  if (
+    segments.length <= baseSegments.length ||
+    baseSegments.some((segment, index) => segments[index] !== segment)
+  ) {
+    return false;
+  }
+
+  return matchSegments(
+    pattern,
+    globStart(pattern, false),
+    segments.slice(baseSegments.length),
+  );
+}
+
+export type GlobOptions = {
+  // let wildcards match names starting with "."
+  dot?: boolean;
+};
+
+export type GlobPattern = {
+  readonly source: string;
+  readonly alternatives: readonly GlobAlternative[];
+  readonly dot: boolean;
+};
+
+type GlobAlternative = { absolute: boolean; segments: GlobSegment[] };
+
+type GlobSegment =
+  | { kind: "GLOBSTAR" }
+  | { kind: "LITERAL"; value: string }
+  | { kind: "WILDCARD"; regex: RegExp };
+
+export type GlobSyntaxError =
+  | { kind: "EMPTY_PATTERN" }
+  | { kind: "UNCLOSED_BRACE"; position: number }
+  | { kind: "UNCLOSED_CHARACTER_CLASS"; position: number }
+  | { kind: "INVALID_RANGE"; position: number; range: string }
+  | { kind: "TRAILING_ESCAPE"; position: number }
+  | { kind: "EMPTY_SEGMENT"; pattern: string }
+  | { kind: "INVALID_GLOBSTAR"; segment: string }
+  | { kind: "RESERVED_SEGMENT"; segment: string };
+
+// A point in the matching of one alternative: the index of the next segment
+// to match. `index === segments.length` means the alternative has matched.
+export type GlobPosition = { alternative: number; index: number };
+
+export function globStart(
+  pattern: GlobPattern,
+  absolute: boolean,
+): GlobPosition[] {
+  const positions: GlobPosition[] = [];
+  pattern.alternatives.forEach((alternative, index) => {
+    if (alternative.absolute === absolute) {
+      positions.push({ alternative: index, index: 0 });
+    }
+  });
+  return closure(pattern, positions);
+}
+
+export function globStep(
+  pattern: GlobPattern,
+  positions: GlobPosition[],
+  name: string,
+  traverseGlobstar = true,
+): GlobPosition[] {
+  const next: GlobPosition[] = [];
+  for (const position of positions) {
+    const segment = pattern.alternatives[position.alternative]
+      ?.segments[position.index];
+    if (segment === undefined) {
+      continue;
+    }
+
+    switch (segment.kind) {
+      case "GLOBSTAR": {
+        if (traverseGlobstar && (pattern.dot || !name.startsWith("."))) {
+          next.push(position);
+        }
+        break;
+      }
+      case "LITERAL": {
+        if (segment.value === name) {
+          next.push({ ...position, index: position.index + 1 });
+        }
+        break;
+      }
+      case "WILDCARD": {
+        if (segment.regex.test(name)) {
+          next.push({ ...position, index: position.index + 1 });
+        }
+        break;
+      }
+      default: {
+        throw new ExhaustiveCaseError(segment);
+      }
+    }
+  }
+  return closure(pattern, next);
+}
+
+export function globMatched(
+  pattern: GlobPattern,
+  positions: GlobPosition[],
+): boolean {
+  return positions.some(({ alternative, index }) =>
+    index === pattern.alternatives[alternative]?.segments.length
+  );
+}
+
+// Whether any alternative still has segments left to match
+export function globPending(
+  pattern: GlobPattern,
+  positions: GlobPosition[],
+): boolean {
+  return positions.some(({ alternative, index }) =>
+    index < (pattern.alternatives[alternative]?.segments.length ?? 0)
+  );
+}
+
+function matchSegments(
+  pattern: GlobPattern,
+  start: GlobPosition[],
+  segments: string[],
+): boolean {
+  let positions = start;
+  for (const segment of segments) {
+    if (positions.length === 0) {
+      return false;
+    }
+    positions = globStep(pattern, positions, segment);
+  }
+  return segments.length > 0 && globMatched(pattern, positions);
+}
+
+// A globstar matches zero segments too, so a position before it is also a
+// position after it
+function closure(
+  pattern: GlobPattern,
+  positions: GlobPosition[],
+): GlobPosition[] {
+  const seen = new Set<string>();
+  const result: GlobPosition[] = [];
+  const pending = [...positions];
+  for (const position of pending) {
+    const key = `${position.alternative}:${position.index}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    result.push(position);
+
+    const segments = pattern.alternatives[position.alternative]?.segments;
+    if (segments?.[position.index]?.kind === "GLOBSTAR") {
+      pending.push({ ...position, index: position.index + 1 });
+    }
+  }
+  return result;
+}
+
+type BraceExpansion = { expansions: string[]; end: number };
+
+// Expands `{a,b}` groups, keeping escapes and character classes intact for
+// the segment parser
+function expandBraces(
+  pattern: string,
+  start: number,
+  inBrace: boolean,
+): Result<BraceExpansion, GlobSyntaxError> {
+  let expansions = [""];
+  const append = (text: string) => {
+    expansions = expansions.map((expansion) => expansion + text);
+  };
+
+  let i = start;
+  while (i < pattern.length) {
+    const char = pattern[i]!;
+    if (inBrace && (char === "," || char === "}")) {
+      return ok({ expansions, end: i });
+    }
+
+    switch (char) {
+      case "\\": {
+        if (i + 1 >= pattern.length) {
+          return err({ kind: "TRAILING_ESCAPE", position: i });
+        }
+        append(pattern.slice(i, i + 2));
+        i += 2;
+        break;
+      }
+      case "[": {
+        const end = characterClassEnd(pattern, i);
+        if (!end.success) {
+          return end;
+        }
+        append(pattern.slice(i, end.value + 1));
+        i = end.value + 1;
+        break;
+      }
+      case "{": {
+        const options: string[] = [];
+        let commas = 0;
+        let j = i + 1;
+        for (;;) {
+          const inner = expandBraces(pattern, j, true);
+          if (!inner.success) {
+            return inner;
+          }
+          options.push(...inner.value.expansions);
+
+          const end = inner.value.end;
+          if (end >= pattern.length) {
+            return err({ kind: "UNCLOSED_BRACE", position: i });
+          }
+          j = end + 1;
+          if (pattern[end] === "}") {
+            break;
+          }
+          commas += 1;
+        }
+
+        // `{a}` is not a group, so its braces are kept as literals
+        const wrap = (option: string) =>
+          commas === 0 ? `\\{${option}\\}` : option;
+        expansions = expansions.flatMap((expansion) =>
+          options.map((option) => expansion + wrap(option))
+        );
+        i = j;
+        break;
+      }
+      default: {
+        append(char);
+        i += 1;
+      }
+    }
+  }
+
+  return ok({ expansions, end: i });
+}
+
+// Returns the index of the `]` closing the character class opened at `start`
+function characterClassEnd(
+  pattern: string,
+  start: number,
+): Result<number, GlobSyntaxError> {
+  let i = start + 1;
+  if (pattern[i] === "!" || pattern[i] === "^") {
+    i += 1;
+  }
+  // a `]` right after the opening is a literal
+  if (pattern[i] === "]") {
+    i += 1;
+  }
+
+  while (i < pattern.length) {
+    const char = pattern[i]!;
+    if (char === "]") {
+      return ok(i);
+    }
+    if (char === "\\") {
+      i += 2;
+      continue;
+    }
+    if (
+      pattern[i + 1] === "-" && i + 2 < pattern.length &&
+      pattern[i + 2] !== "]" && pattern[i + 2]! < char
+    ) {
+      return err({
+        kind: "INVALID_RANGE",
+        position: i,
+        range: pattern.slice(i, i + 3),
+      });
+    }
+    i += 1;
+  }
+
+  return err({ kind: "UNCLOSED_CHARACTER_CLASS", position: start });
+}
+
+function parseAlternative(
+  pattern: string,
+  dot: boolean,
+): Result<GlobAlternative, GlobSyntaxError> {
+  const absolute = pattern.startsWith("/");
+  const rawSegments = splitSegments(absolute ? pattern.slice(1) : pattern);
+
+  const segments: GlobSegment[] = [];
+  for (const rawSegment of rawSegments) {
+    if (rawSegment.length === 0) {
+      return err({ kind: "EMPTY_SEGMENT", pattern });
+    }
+    if (rawSegment === "." || rawSegment === "..") {
+      return err({ kind: "RESERVED_SEGMENT", segment: rawSegment });
+    }
+    if (rawSegment === "**") {
+      segments.push({ kind: "GLOBSTAR" });
+      continue;
+    }
+    if (/(^|[^\\])\*\*/.test(rawSegment)) {
+      return err({ kind: "INVALID_GLOBSTAR", segment: rawSegment });
+    }
+    segments.push(compileSegment(rawSegment, dot));
+  }
+
+  return ok({ absolute, segments });
+}
+
+function splitSegments(pattern: string): string[] {
+  const segments: string[] = [];
+  let current = "";
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === "\\") {
+      current += pattern.slice(i, i + 2);
+      i += 1;
+    } else if (char === "/" && !inClass) {
+      segments.push(current);
+      current = "";
+    } else {
+      if (char === "[" && !inClass) {
+        inClass = characterClassEnd(pattern, i).success;
+      } else if (char === "]" && inClass) {
+        inClass = false;
+      }
+      current += char;
+    }
+  }
+  segments.push(current);
+  return segments;
+}
+
+function compileSegment(segment: string, dot: boolean): GlobSegment {
+  let source = "";
+  let literal = "";
+  let isLiteral = true;
+
+  let i = 0;
+  while (i < segment.length) {
+    const char = segment[i]!;
+    switch (char) {
+      case "\\": {
+        const escaped = segment[i + 1]!;
+        source += escapeRegExp(escaped);
+        literal += escaped;
+        i += 2;
+        break;
+      }
+      case "*": {
+        source += ".*";
+        isLiteral = false;
+        i += 1;
+        break;
+      }
+      case "?": {
+        source += ".";
+        isLiteral = false;
+        i += 1;
+        break;
+      }
+      case "[": {
+        // Validated during brace expansion, so the class is always closed
+        const end = characterClassEnd(segment, i);
+        const body = end.success ? segment.slice(i + 1, end.value) : "";
+        source += compileCharacterClass(body);
+        isLiteral = false;
+        i = end.success ? end.value + 1 : segment.length;
+        break;
+      }
+      default: {
+        source += escapeRegExp(char);
+        literal += char;
+        i += 1;
+      }
+    }
+  }
+
+  if (isLiteral) {
+    return { kind: "LITERAL", value: literal };
+  }
+
+  const hideDotFiles = !dot && !segment.startsWith(".");
+  return {
+    kind: "WILDCARD",
+    regex: new RegExp(`^${hideDotFiles ? "(?!\\.)" : ""}${source}$`, "su"),
+  };
+}
+
+function compileCharacterClass(body: string): string {
+  let negated = false;
+  let i = 0;
+  if (body[0] === "!" || body[0] === "^") {
+    negated = true;
+    i = 1;
+  }
+
+  let source = "";
+  while (i < body.length) {
+    let char = body[i]!;
+    if (char === "\\" && i + 1 < body.length) {
+      i += 1;
+      char = body[i]!;
+    }
+    source += /[\\\]\[^-]/.test(char) ? `\\${char}` : char;
+    if (body[i + 1] === "-" && i + 2 < body.length) {
+      source += "-";
+      i += 1;
+    }
+    i += 1;
+  }
+
+  return `[${negated ? "^" : ""}${source}]`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function globSyntaxErrorToString(error: GlobSyntaxError): string {
+  switch (error.kind) {
+    case "EMPTY_PATTERN": {
+      return "Pattern cannot be empty";
+    }
+    case "UNCLOSED_BRACE": {
+      return `Unclosed brace at position ${error.position}`;
+    }
+    case "UNCLOSED_CHARACTER_CLASS": {
+      return `Unclosed character class at position ${error.position}`;
+    }
+    case "INVALID_RANGE": {
+      return `Invalid character range "${error.range}" at position ${error.position}`;
+    }
+    case "TRAILING_ESCAPE": {
+      return `Pattern cannot end with an escape character (position ${error.position})`;
+    }
+    case "EMPTY_SEGMENT": {
+      return `Pattern cannot contain empty segments: "${error.pattern}"`;
+    }
+    case "INVALID_GLOBSTAR": {
+      return `"**" must be a whole path segment: "${error.segment}"`;
+    }
+    case "RESERVED_SEGMENT": {
+      return `"${error.segment}" is not allowed in a pattern`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
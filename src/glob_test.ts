@@ -0,0 +1,113 @@
+import { assert, assertEquals } from "@std/assert";
+import { err } from "@coint/simple";
+import { globParse, type GlobSyntaxError, matches } from "./glob.ts";
+import { Directory, type Path } from "./path.ts";
+
+function path(fullPath: string): Path {
+  const dir = Directory.build(
+    fullPath.substring(0, fullPath.lastIndexOf("/")) || "/",
+  );
+  assert(dir.success);
+  const file = dir.value.file(
+    fullPath.substring(fullPath.lastIndexOf("/") + 1),
+  );
+  assert(file.success);
+  return file.value;
+}
+
+function match(pattern: string, fullPath: string): boolean {
+  const parsed = globParse(pattern);
+  assert(parsed.success);
+  return matches(parsed.value, path(fullPath));
+}
+
+Deno.test("matches - wildcards", () => {
+  assert(match("/src/*.ts", "/src/mod.ts"));
+  assert(!match("/src/*.ts", "/src/mod.js"));
+  assert(!match("/src/*.ts", "/src/lib/mod.ts"));
+  assert(match("/src/?.ts", "/src/a.ts"));
+  assert(!match("/src/?.ts", "/src/ab.ts"));
+});
+
+Deno.test("matches - globstar", () => {
+  assert(match("/src/**/*.ts", "/src/mod.ts"));
+  assert(match("/src/**/*.ts", "/src/a/b/c/mod.ts"));
+  assert(match("/**", "/a/b/c"));
+  assert(!match("/src/**/*.ts", "/lib/mod.ts"));
+});
+
+Deno.test("matches - character classes", () => {
+  assert(match("/file[0-9].txt", "/file7.txt"));
+  assert(!match("/file[0-9].txt", "/filex.txt"));
+  assert(match("/file[!0-9].txt", "/filex.txt"));
+  assert(match("/file[^abc].txt", "/filed.txt"));
+  assert(!match("/file[^abc].txt", "/filea.txt"));
+  assert(match("/file[]].txt", "/file].txt"));
+});
+
+Deno.test("matches - brace expansion", () => {
+  assert(match("/src/**/*.{ts,tsx}", "/src/ui/button.tsx"));
+  assert(match("/src/**/*.{ts,tsx}", "/src/mod.ts"));
+  assert(!match("/src/**/*.{ts,tsx}", "/src/mod.js"));
+  assert(match("/{a,b{c,d}}/x", "/bd/x"));
+  assert(match("/{a}/x", "/{a}/x"));
+});
+
+Deno.test("matches - dot files", () => {
+  assert(!match("/*", "/.bashrc"));
+  assert(match("/.*", "/.bashrc"));
+  assert(!match("/**/x", "/.git/x"));
+
+  const parsed = globParse("/*", { dot: true });
+  assert(parsed.success);
+  assert(matches(parsed.value, path("/.bashrc")));
+});
+
+Deno.test("matches - escapes", () => {
+  assert(match("/a\\[b\\]", "/a[b]"));
+  assert(!match("/a\\[b\\]", "/ab"));
+  assert(match("/a\\{b,c\\}", "/a{b,c}"));
+});
+
+Deno.test("matches - relative pattern", () => {
+  const parsed = globParse("src/*.ts");
+  assert(parsed.success);
+  const base = Directory.build("/project");
+  assert(base.success);
+
+  assert(matches(parsed.value, path("/project/src/mod.ts"), base.value));
+  assert(!matches(parsed.value, path("/other/src/mod.ts"), base.value));
+  assert(matches(parsed.value, path("/src/mod.ts")));
+});
+
+Deno.test("globParse - syntax errors", () => {
+  assertEquals(globParse(""), err<GlobSyntaxError>({ kind: "EMPTY_PATTERN" }));
+  assertEquals(
+    globParse("a/{b,c"),
+    err<GlobSyntaxError>({ kind: "UNCLOSED_BRACE", position: 2 }),
+  );
+  assertEquals(
+    globParse("a/[bc"),
+    err<GlobSyntaxError>({ kind: "UNCLOSED_CHARACTER_CLASS", position: 2 }),
+  );
+  assertEquals(
+    globParse("[z-a]"),
+    err<GlobSyntaxError>({ kind: "INVALID_RANGE", position: 1, range: "z-a" }),
+  );
+  assertEquals(
+    globParse("a\\"),
+    err<GlobSyntaxError>({ kind: "TRAILING_ESCAPE", position: 1 }),
+  );
+  assertEquals(
+    globParse("a//b"),
+    err<GlobSyntaxError>({ kind: "EMPTY_SEGMENT", pattern: "a//b" }),
+  );
+  assertEquals(
+    globParse("a**/b"),
+    err<GlobSyntaxError>({ kind: "INVALID_GLOBSTAR", segment: "a**" }),
+  );
+  assertEquals(
+    globParse("../b"),
+    err<GlobSyntaxError>({ kind: "RESERVED_SEGMENT", segment: ".." }),
+  );
+});
@@ -0,0 +1,82 @@
+/**
+ * Typed metadata of a file or directory, as returned by `File.stat()` and
+ * `Directory.stat()`.
+ *
+ * Fields the platform does not report (ownership and inodes on Windows, birth
+ * time on some Linux filesystems) are `undefined`. Permission bits are broken
+ * into user, group and other read/write/execute flags, and convert to and from
+ * the numeric mode accepted by `chmod`.
+ *
+ * @example Making a script executable
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { permissionsFromMode, permissionsToMode } from "./info.ts";
+ *
+ * const permissions = permissionsFromMode(0o644);
+ * assertEquals(permissions.user, { read: true, write: true, execute: false });
+ *
+ * permissions.user.execute = true;
+ * assertEquals(permissionsToMode(permissions), 0o744);
+ * ```
+ */
+
+export type PermissionBits = {
+  read: boolean;
+  write: boolean;
+  execute: boolean;
+};
+
+export type Permissions = {
+  user: PermissionBits;
+  group: PermissionBits;
+  other: PermissionBits;
+};
+
+export type PathInfo = {
+  size: number;
+  mtime: Date | undefined;
+  atime: Date | undefined;
+  ctime: Date | undefined;
+  birthtime: Date | undefined;
+  // the permission bits only, without the file type
+  mode: number | undefined;
+  permissions: Permissions | undefined;
+  uid: number | undefined;
+  gid: number | undefined;
+  ino: number | undefined;
+  nlink: number | undefined;
+};
+
+export function permissionsFromMode(mode: number): Permissions {
+  const bits = (shift: number): PermissionBits => ({
+    read: (mode & (0o4 << shift)) !== 0,
+    write: (mode & (0o2 << shift)) !== 0,
+    execute: (mode & (0o1 << shift)) !== 0,
+  });
+  return { user: bits(6), group: bits(3), other: bits(0) };
+}
+
+// Only the rwx bits: setuid, setgid and sticky are left out
+export function permissionsToMode(permissions: Permissions): number {
+  const bits = ({ read, write, execute }: PermissionBits): number =>
+    (read ? 0o4 : 0) | (write ? 0o2 : 0) | (execute ? 0o1 : 0);
+  return (bits(permissions.user) << 6) | (bits(permissions.group) << 3) |
+    bits(permissions.other);
+}
+
+export function pathInfo(stat: Deno.FileInfo): PathInfo {
+  const mode = stat.mode === null ? undefined : stat.mode & 0o7777;
+  return {
+    size: stat.size,
+    mtime: stat.mtime ?? undefined,
+    atime: stat.atime ?? undefined,
+    ctime: stat.ctime ?? undefined,
+    birthtime: stat.birthtime ?? undefined,
+    mode,
+    permissions: mode === undefined ? undefined : permissionsFromMode(mode),
+    uid: stat.uid ?? undefined,
+    gid: stat.gid ?? undefined,
+    ino: stat.ino ?? undefined,
+    nlink: stat.nlink ?? undefined,
+  };
+}
@@ -0,0 +1,57 @@
+import { assertEquals } from "@std/assert";
+import { pathInfo, permissionsFromMode, permissionsToMode } from "./info.ts";
+
+Deno.test("permissionsFromMode() - splits rwx bits", () => {
+  assertEquals(permissionsFromMode(0o750), {
+    user: { read: true, write: true, execute: true },
+    group: { read: true, write: false, execute: true },
+    other: { read: false, write: false, execute: false },
+  });
+});
+
+Deno.test("permissionsToMode() - round trips", () => {
+  for (const mode of [0o000, 0o644, 0o755, 0o777, 0o421]) {
+    assertEquals(permissionsToMode(permissionsFromMode(mode)), mode);
+  }
+  // special bits are not part of Permissions
+  assertEquals(permissionsToMode(permissionsFromMode(0o4755)), 0o755);
+});
+
+Deno.test("pathInfo() - missing fields are undefined", () => {
+  const info = pathInfo({
+    isFile: true,
+    isDirectory: false,
+    isSymlink: false,
+    size: 12,
+    mtime: new Date(0),
+    atime: null,
+    birthtime: null,
+    ctime: null,
+    dev: 0,
+    ino: null,
+    mode: null,
+    nlink: null,
+    uid: null,
+    gid: null,
+    rdev: null,
+    blksize: null,
+    blocks: null,
+    isBlockDevice: null,
+    isCharDevice: null,
+    isFifo: null,
+    isSocket: null,
+  });
+  assertEquals(info, {
+    size: 12,
+    mtime: new Date(0),
+    atime: undefined,
+    ctime: undefined,
+    birthtime: undefined,
+    mode: undefined,
+    permissions: undefined,
+    uid: undefined,
+    gid: undefined,
+    ino: undefined,
+    nlink: undefined,
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * `JSON.parse` returning a `Result`, with the line and column of a syntax
+ * error.
+ *
+ * The location is found by scanning the text again after `JSON.parse` fails,
+ * so it does not depend on the wording of the engine's error message.
+ *
+ * @example Locating a syntax error
+ * ```ts
+ * import { assert, assertEquals } from "@std/assert";
+ * import { jsonParse } from "./json.ts";
+ *
+ * const parsed = jsonParse('{\n  "name": "app",\n  "port": 80,\n}');
+ * assert(!parsed.success);
+ * assertEquals(parsed.error.line, 4);
+ * assertEquals(parsed.error.column, 1);
+ * ```
+ */
+import { err, ok, type Result } from "@coint/simple";
+
+export type JsonParseError = {
+  kind: "PARSE_ERROR";
+  message: string;
+  // 1-based, the column counts UTF-16 code units
+  line: number;
+  column: number;
+};
+
+export function jsonParse(text: string): Result<unknown, JsonParseError> {
+  try {
+    return ok(JSON.parse(text));
+  } catch (error) {
+    const offset = jsonErrorOffset(text);
+    const lines = text.substring(0, offset).split("\n");
+    return err({
+      kind: "PARSE_ERROR",
+      message: error instanceof Error ? error.message : String(error),
+      line: lines.length,
+      column: (lines.at(-1)?.length ?? 0) + 1,
+    });
+  }
+}
+
+export function jsonParseErrorToString(error: JsonParseError): string {
+  return `Invalid JSON at line ${error.line}, column ${error.column}: ${error.message}`;
+}
+
+const JSON_NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/uy;
+const HEX_DIGIT = /^[0-9a-fA-F]$/u;
+
+// The offset of the first character that makes `text` invalid JSON
+function jsonErrorOffset(text: string): number {
+  let offset = 0;
+
+  const skipWhitespace = () => {
+    while (" \t\n\r".includes(text[offset] ?? "x")) {
+      offset += 1;
+    }
+  };
+
+  const literal = (word: string): boolean => {
+    for (const char of word) {
+      if (text[offset] !== char) {
+        return false;
+      }
+      offset += 1;
+    }
+    return true;
+  };
+
+  const string = (): boolean => {
+    // the opening quote
+    offset += 1;
+    while (offset < text.length) {
+      const char = text[offset] ?? "";
+      if (char === '"') {
+        offset += 1;
+        return true;
+      }
+      if (char < " ") {
+        return false;
+      }
+      if (char === "\\") {
+        offset += 1;
+        const escape = text[offset] ?? "";
+        if (escape === "u") {
+          for (let digit = 0; digit < 4; digit++) {
+            offset += 1;
+            if (!HEX_DIGIT.test(text[offset] ?? "")) {
+              return false;
+            }
+          }
+        } else if (escape === "" || !'"\\/bfnrt'.includes(escape)) {
+          return false;
+        }
+      }
+      offset += 1;
+    }
+    return false;
+  };
+
+  const number = (): boolean => {
+    JSON_NUMBER.lastIndex = offset;
+    const match = JSON_NUMBER.exec(text);
+    if (match === null) {
+      return false;
+    }
+    offset += match[0].length;
+    return true;
+  };
+
+  const scalar = (): boolean => {
+    switch (text[offset]) {
+      case '"': {
+        return string();
+      }
+      case "t": {
+        return literal("true");
+      }
+      case "f": {
+        return literal("false");
+      }
+      case "n": {
+        return literal("null");
+      }
+      default: {
+        return number();
+      }
+    }
+  };
+
+  // An object key and its colon, before the value
+  const key = (): boolean => {
+    skipWhitespace();
+    if (text[offset] !== '"' || !string()) {
+      return false;
+    }
+    skipWhitespace();
+    if (text[offset] !== ":") {
+      return false;
+    }
+    offset += 1;
+    return true;
+  };
+
+  // The closing brackets of the arrays and objects around the offset, kept
+  // here rather than on the call stack so deep nesting cannot overflow it
+  const open: ("]" | "}")[] = [];
+  for (;;) {
+    // a value starts here
+    skipWhitespace();
+    const char = text[offset];
+    if (char === "[" || char === "{") {
+      const close = char === "[" ? "]" : "}";
+      offset += 1;
+      skipWhitespace();
+      if (text[offset] !== close) {
+        open.push(close);
+        if (close === "}" && !key()) {
+          break;
+        }
+        continue;
+      }
+      offset += 1;
+    } else if (!scalar()) {
+      break;
+    }
+
+    // a value ended here: close the arrays and objects it completes
+    skipWhitespace();
+    while (open.length > 0 && text[offset] === open.at(-1)) {
+      offset += 1;
+      open.pop();
+      skipWhitespace();
+    }
+    const close = open.at(-1);
+    // anything left after a complete value is the error
+    if (close === undefined || text[offset] !== ",") {
+      break;
+    }
+    offset += 1;
+    if (close === "}" && !key()) {
+      break;
+    }
+  }
+  return Math.min(offset, text.length);
+}
@@ -0,0 +1,51 @@
+import { assert, assertEquals } from "@std/assert";
+import { ok } from "@coint/simple";
+import { jsonParse } from "./json.ts";
+
+Deno.test("jsonParse() - valid JSON", () => {
+  assertEquals(
+    jsonParse('{"a": [1, true, null, "x"]}'),
+    ok({
+      a: [1, true, null, "x"],
+    }),
+  );
+});
+
+Deno.test("jsonParse() - error locations", () => {
+  const cases: [string, number, number][] = [
+    ['{"a":1,}', 1, 8],
+    ['{\n  "a": tru\n}', 2, 11],
+    ["", 1, 1],
+    ['{"a":', 1, 6],
+    ["[1,\n 2", 2, 3],
+    ['"a\\qb"', 1, 4],
+    ['{"a":1} x', 1, 9],
+    ["01", 1, 2],
+  ];
+  for (const [text, line, column] of cases) {
+    const parsed = jsonParse(text);
+    assertEquals(
+      parsed.success ? undefined : [parsed.error.line, parsed.error.column],
+      [line, column],
+      text,
+    );
+  }
+});
+
+Deno.test("jsonParse() - deeply nested", () => {
+  const depth = 100_000;
+  const unclosed = jsonParse("[".repeat(depth));
+  assert(!unclosed.success);
+  assertEquals([unclosed.error.line, unclosed.error.column], [1, depth + 1]);
+
+  const extra = jsonParse(`${'[{"a":'.repeat(depth)}1${"}]".repeat(depth)}]`);
+  assert(!extra.success);
+  assertEquals(extra.error.column, depth * 8 + 2);
+});
+
+Deno.test("jsonParse() - keeps the engine message", () => {
+  const parsed = jsonParse("[1,2");
+  assert(!parsed.success);
+  assertEquals(parsed.error.kind, "PARSE_ERROR");
+  assert(parsed.error.message.length > 0);
+});
@@ -0,0 +1,338 @@
+/**
+ * Advisory file locks, taken with `File.lock()` and `File.withLock()`.
+ *
+ * Locks are held on a file next to the locked one, which is never created or
+ * opened itself, so it can be missing or replaced by `writeAtomic()` while
+ * locked. A `<name>.flock` file is taken with the platform's advisory locking
+ * (`flock` on POSIX), which the kernel releases when the holding process
+ * exits, and is left in place. Where that is not supported, or with the
+ * `lockfile` option, a `<name>.lock` file is created instead and holds the
+ * PID of its owner; it is taken over once that process no longer runs, or
+ * when it has stayed empty for a few seconds. The two kinds do not exclude
+ * each other, so all users of a file should lock it the same way.
+ *
+ * @example Serializing updates of a shared file
+ * ```ts
+ * import { assert, assertEquals } from "@std/assert";
+ * import { MemoryFileSystem } from "./memory.ts";
+ * import { File } from "./path.ts";
+ *
+ * const state = File.parse("/state.json", {
+ *   fileSystem: new MemoryFileSystem(),
+ * });
+ * assert(state.success);
+ *
+ * {
+ *   const lock = await state.value.lock();
+ *   assert(lock.success);
+ *   await using _ = lock.value;
+ *
+ *   // a second holder has to wait
+ *   const second = await state.value.lock({ timeoutMs: 0 });
+ *   assert(!second.success);
+ *   assertEquals(second.error.kind, "LOCKED");
+ * }
+ *
+ * const count = await state.value.withLock(async () => {
+ *   await state.value.write("1");
+ *   return 1;
+ * });
+ * assertEquals(count, { success: true, value: 1 });
+ * ```
+ */
+import { err, ExhaustiveCaseError, ok, type Result } from "@coint/simple";
+import type { File } from "./path.ts";
+
+export type LockOptions = {
+  // false for a shared lock, which a lockfile cannot provide: it is then taken
+  // exclusively. True by default
+  exclusive?: boolean;
+  // how long to wait for other holders, forever by default
+  timeoutMs?: number;
+  // how often to try again while waiting, 50 by default
+  retryMs?: number;
+  // use a lockfile even where advisory locks are supported
+  lockfile?: boolean;
+};
+
+export type FileLockError =
+  // held elsewhere and `timeoutMs` is 0
+  | { kind: "LOCKED"; path: string }
+  | { kind: "TIMEOUT"; path: string; timeoutMs: number }
+  | { kind: "PARENT_NOT_FOUND" }
+  | { kind: "IS_DIRECTORY" }
+  | { kind: "PERMISSION_DENIED"; path: string }
+  | { kind: "IO_ERROR"; message: string };
+
+export type FileUnlockError =
+  // the lockfile was removed by someone else
+  | { kind: "LOCK_LOST"; path: string }
+  | { kind: "PERMISSION_DENIED"; path: string }
+  | { kind: "IO_ERROR"; message: string };
+
+const DEFAULT_RETRY_MS = 50;
+
+// How long a lockfile without a PID is taken to be still being written
+const UNWRITTEN_LOCKFILE_MS = 5_000;
+
+// Created by File.lock()
+export class FileLock implements AsyncDisposable {
+  private released = false;
+
+  constructor(
+    readonly file: File,
+    // false only for a shared advisory lock
+    readonly exclusive: boolean,
+    // the lockfile, when one is used
+    readonly lockfile: string | undefined,
+    private readonly unlock: () => Promise<void>,
+  ) {}
+
+  // Releasing more than once is not an error
+  async release(): Promise<Result<void, FileUnlockError>> {
+    if (this.released) {
+      return ok(undefined);
+    }
+    this.released = true;
+    const path = this.lockfile ?? this.file.fullPath;
+    try {
+      await this.unlock();
+      return ok(undefined);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return err({ kind: "LOCK_LOST", path });
+      } else if (error instanceof Deno.errors.PermissionDenied) {
+        return err({ kind: "PERMISSION_DENIED", path });
+      }
+      return err({
+        kind: "IO_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Errors are dropped, use release() to see them
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.release();
+  }
+}
+
+// Tries until the lock is taken or `timeoutMs` has passed
+export async function fileLockAcquire(
+  file: File,
+  options: LockOptions,
+): Promise<Result<FileLock, FileLockError>> {
+  const {
+    exclusive = true,
+    timeoutMs = Infinity,
+    retryMs = DEFAULT_RETRY_MS,
+  } = options;
+  const deadline = Date.now() + timeoutMs;
+  let lockfile = options.lockfile ?? false;
+
+  // the target is not opened, so a directory has to be looked for
+  try {
+    if ((await file.fileSystem.stat(file.fullPath)).isDirectory) {
+      return err({ kind: "IS_DIRECTORY" });
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      return err(fileLockError(error, file.fullPath));
+    }
+  }
+
+  for (;;) {
+    let attempt: Result<FileLock | undefined, FileLockError>;
+    try {
+      attempt = lockfile
+        ? await lockfileTry(file)
+        : await advisoryTry(file, exclusive);
+    } catch (error) {
+      if (!lockfile && error instanceof Deno.errors.NotSupported) {
+        lockfile = true;
+        continue;
+      }
+      const path = lockfile ? lockfilePath(file) : advisoryLockPath(file);
+      attempt = err(fileLockError(error, path));
+    }
+    if (!attempt.success) {
+      return attempt;
+    }
+    if (attempt.value !== undefined) {
+      return ok(attempt.value);
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return err(
+        timeoutMs === 0
+          ? { kind: "LOCKED", path: file.fullPath }
+          : { kind: "TIMEOUT", path: file.fullPath, timeoutMs },
+      );
+    }
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(retryMs, remaining))
+    );
+  }
+}
+
+export function fileLockErrorToString(error: FileLockError): string {
+  switch (error.kind) {
+    case "LOCKED": {
+      return `File is locked: "${error.path}"`;
+    }
+    case "TIMEOUT": {
+      return `Timed out after ${error.timeoutMs}ms waiting for lock: "${error.path}"`;
+    }
+    case "PARENT_NOT_FOUND": {
+      return "Parent directory does not exist";
+    }
+    case "IS_DIRECTORY": {
+      return "Path is a directory";
+    }
+    case "PERMISSION_DENIED": {
+      return `Permission denied to lock: "${error.path}"`;
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function fileUnlockErrorToString(error: FileUnlockError): string {
+  switch (error.kind) {
+    case "LOCK_LOST": {
+      return `Lockfile was removed by someone else: "${error.path}"`;
+    }
+    case "PERMISSION_DENIED": {
+      return `Permission denied to unlock: "${error.path}"`;
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+// Undefined while another holder has the lock
+async function advisoryTry(
+  file: File,
+  exclusive: boolean,
+): Promise<Result<FileLock | undefined, FileLockError>> {
+  const held = await file.fileSystem.tryLock(advisoryLockPath(file), exclusive);
+  if (held === undefined) {
+    return ok(undefined);
+  }
+  return ok(new FileLock(file, exclusive, undefined, () => held.unlock()));
+}
+
+async function lockfileTry(
+  file: File,
+): Promise<Result<FileLock | undefined, FileLockError>> {
+  const { fileSystem } = file;
+  const lockfile = lockfilePath(file);
+  for (;;) {
+    try {
+      await fileSystem.writeFile(
+        lockfile,
+        new TextEncoder().encode(`${Deno.pid}\n`),
+        { createNew: true },
+      );
+      return ok(
+        new FileLock(file, true, lockfile, () => fileSystem.remove(lockfile)),
+      );
+    } catch (error) {
+      if (!(error instanceof Deno.errors.AlreadyExists)) {
+        return err(fileLockError(error, lockfile));
+      }
+    }
+
+    let owner: string;
+    try {
+      owner = await fileSystem.readTextFile(lockfile);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        // released in the meantime
+        continue;
+      }
+      return err(fileLockError(error, lockfile));
+    }
+
+    const pid = /^\d+\n$/u.test(owner) ? Number(owner.trim()) : undefined;
+    if (pid === undefined) {
+      // still being written by its owner, unless it crashed before that
+      let modified: Date | null;
+      try {
+        modified = (await fileSystem.stat(lockfile)).mtime;
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          continue;
+        }
+        return err(fileLockError(error, lockfile));
+      }
+      if (
+        modified === null ||
+        Date.now() - modified.getTime() < UNWRITTEN_LOCKFILE_MS
+      ) {
+        return ok(undefined);
+      }
+    } else if (await processAlive(pid)) {
+      return ok(undefined);
+    }
+    // Another process may take over the same stale lockfile at once, and
+    // remove the one this process creates next; the window is a few syscalls
+    try {
+      await fileSystem.remove(lockfile);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        return err(fileLockError(error, lockfile));
+      }
+    }
+  }
+}
+
+function advisoryLockPath(file: File): string {
+  return `${file.fullPath}.flock`;
+}
+
+function lockfilePath(file: File): string {
+  return `${file.fullPath}.lock`;
+}
+
+// Looks the process up in /proc; without it every owner is taken to be alive,
+// so stale lockfiles are never taken over
+async function processAlive(pid: number): Promise<boolean> {
+  try {
+    await Deno.stat(`/proc/${pid}`);
+    return true;
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      return true;
+    }
+  }
+  try {
+    await Deno.stat("/proc/self");
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+function fileLockError(error: unknown, path: string): FileLockError {
+  if (error instanceof Deno.errors.NotFound) {
+    return { kind: "PARENT_NOT_FOUND" };
+  } else if (error instanceof Deno.errors.IsADirectory) {
+    return { kind: "IS_DIRECTORY" };
+  } else if (error instanceof Deno.errors.PermissionDenied) {
+    return { kind: "PERMISSION_DENIED", path };
+  }
+  return {
+    kind: "IO_ERROR",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
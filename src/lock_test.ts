@@ -0,0 +1,264 @@
+import { assert, assertEquals } from "@std/assert";
+import { err, ok } from "@coint/simple";
+import { MemoryFileSystem } from "./memory.ts";
+import { Directory, File, type FileReadJsonError } from "./path.ts";
+import {
+  type FileLockError,
+  fileLockErrorToString,
+  type FileUnlockError,
+} from "./lock.ts";
+
+function memoryFile(fileSystem = new MemoryFileSystem()): File {
+  const file = File.parse("/state.json", { fileSystem });
+  assert(file.success);
+  return file.value;
+}
+
+// A filesystem without advisory locks, so lockfiles are used
+class NoLockFileSystem extends MemoryFileSystem {
+  override tryLock(): Promise<undefined> {
+    return Promise.reject(new Deno.errors.NotSupported("flock"));
+  }
+}
+
+// Above the largest PID Linux hands out
+const DEAD_PID = 4_194_305;
+
+Deno.test("File.lock() - exclusive locks exclude each other", async () => {
+  const file = memoryFile();
+  const first = await file.lock();
+  assert(first.success);
+
+  assertEquals(
+    await file.lock({ timeoutMs: 0 }),
+    err<FileLockError>({ kind: "LOCKED", path: "/state.json" }),
+  );
+  assertEquals(
+    await file.lock({ exclusive: false, timeoutMs: 0 }),
+    err<FileLockError>({ kind: "LOCKED", path: "/state.json" }),
+  );
+
+  assertEquals(await first.value.release(), ok(undefined));
+  assertEquals(await first.value.release(), ok(undefined));
+  const second = await file.lock({ timeoutMs: 0 });
+  assert(second.success);
+  await second.value.release();
+});
+
+Deno.test("File.lock() - shared locks", async () => {
+  const file = memoryFile();
+  const first = await file.lock({ exclusive: false });
+  const second = await file.lock({ exclusive: false });
+  assert(first.success && second.success);
+  assertEquals(second.value.exclusive, false);
+
+  const exclusive = await file.lock({ timeoutMs: 0 });
+  assert(!exclusive.success);
+  assertEquals(exclusive.error.kind, "LOCKED");
+
+  await first.value.release();
+  await second.value.release();
+  const released = await file.lock({ timeoutMs: 0 });
+  assert(released.success);
+  await released.value.release();
+});
+
+Deno.test("File.lock() - waits for the holder", async () => {
+  const file = memoryFile();
+  const first = await file.lock();
+  assert(first.success);
+
+  const timedOut = await file.lock({ timeoutMs: 30, retryMs: 10 });
+  assertEquals(
+    timedOut,
+    err<FileLockError>({
+      kind: "TIMEOUT",
+      path: "/state.json",
+      timeoutMs: 30,
+    }),
+  );
+  assert(!timedOut.success);
+  assertEquals(
+    fileLockErrorToString(timedOut.error),
+    'Timed out after 30ms waiting for lock: "/state.json"',
+  );
+
+  const waiting = file.lock({ retryMs: 10 });
+  setTimeout(() => first.value.release(), 20);
+  const second = await waiting;
+  assert(second.success);
+  await second.value.release();
+});
+
+Deno.test("File.withLock() - releases after the callback", async () => {
+  const file = memoryFile();
+  assertEquals(
+    await file.withLock(async () => {
+      assertEquals(
+        (await file.lock({ timeoutMs: 0 })).success,
+        false,
+      );
+      await file.write("updated");
+      return "done";
+    }),
+    ok("done"),
+  );
+  assertEquals(await file.read(), ok("updated"));
+
+  await file.withLock(() => {
+    throw new Error("failed");
+  }).catch(() => {});
+  const lock = await file.lock({ timeoutMs: 0 });
+  assert(lock.success);
+  await lock.value.release();
+});
+
+Deno.test("File.lock() - errors", async () => {
+  const fileSystem = new MemoryFileSystem();
+  const missing = File.parse("/missing/state.json", { fileSystem });
+  assert(missing.success);
+  assertEquals(
+    await missing.value.lock(),
+    err<FileLockError>({ kind: "PARENT_NOT_FOUND" }),
+  );
+
+  const root = Directory.build("/", { fileSystem });
+  assert(root.success);
+  const dir = root.value.directory("dir");
+  assert(dir.success);
+  await dir.value.mkdir();
+  const asFile = root.value.file("dir");
+  assert(asFile.success);
+  assertEquals(
+    await asFile.value.lock(),
+    err<FileLockError>({ kind: "IS_DIRECTORY" }),
+  );
+});
+
+Deno.test("File.lock() - lockfile fallback", async () => {
+  const fileSystem = new NoLockFileSystem();
+  const file = memoryFile(fileSystem);
+
+  const lock = await file.lock({ exclusive: false });
+  assert(lock.success);
+  // a lockfile can only be held by one
+  assertEquals(lock.value.exclusive, true);
+  assertEquals(lock.value.lockfile, "/state.json.lock");
+  assertEquals(
+    await fileSystem.readTextFile("/state.json.lock"),
+    `${Deno.pid}\n`,
+  );
+  assertEquals(
+    await file.lock({ timeoutMs: 0 }),
+    err<FileLockError>({ kind: "LOCKED", path: "/state.json" }),
+  );
+
+  assertEquals(await lock.value.release(), ok(undefined));
+  const lockfile = File.parse("/state.json.lock", { fileSystem });
+  assert(lockfile.success);
+  assertEquals(await lockfile.value.exists(), ok(false));
+});
+
+Deno.test("File.lock() - stale lockfiles are taken over", async () => {
+  const file = memoryFile();
+  await file.fileSystem.writeTextFile("/state.json.lock", `${DEAD_PID}\n`);
+
+  const lock = await file.lock({ lockfile: true, timeoutMs: 0 });
+  assert(lock.success);
+  assertEquals(
+    await file.fileSystem.readTextFile("/state.json.lock"),
+    `${Deno.pid}\n`,
+  );
+
+  // removed by someone else while held
+  await file.fileSystem.remove("/state.json.lock");
+  assertEquals(
+    await lock.value.release(),
+    err<FileUnlockError>({ kind: "LOCK_LOST", path: "/state.json.lock" }),
+  );
+});
+
+Deno.test("File.lock() - advisory lock, then lockfile lock", async () => {
+  const file = memoryFile();
+  const advisory = await file.lock();
+  assert(advisory.success);
+  assertEquals(await advisory.value.release(), ok(undefined));
+
+  // the file left behind by the advisory lock is not a lockfile
+  const lockfile = await file.lock({ lockfile: true, timeoutMs: 0 });
+  assert(lockfile.success);
+  assertEquals(await lockfile.value.release(), ok(undefined));
+});
+
+Deno.test("File.lock() - empty lockfile", async () => {
+  const file = memoryFile();
+  const { fileSystem } = file;
+  await fileSystem.writeTextFile("/state.json.lock", "");
+
+  // its owner may still be writing its PID
+  assertEquals(
+    await file.lock({ lockfile: true, timeoutMs: 0 }),
+    err<FileLockError>({ kind: "LOCKED", path: "/state.json" }),
+  );
+
+  // or crashed before it did
+  const past = new Date(Date.now() - 60_000);
+  await fileSystem.utime("/state.json.lock", past, past);
+  const lock = await file.lock({ lockfile: true, timeoutMs: 0 });
+  assert(lock.success);
+  assertEquals(
+    await fileSystem.readTextFile("/state.json.lock"),
+    `${Deno.pid}\n`,
+  );
+  await lock.value.release();
+});
+
+Deno.test("File.lock() - the file itself is not touched", async () => {
+  const file = memoryFile();
+  const lock = await file.lock();
+  assert(lock.success);
+  assertEquals(await file.exists(), ok(false));
+  assertEquals(
+    await file.readJson(),
+    err<FileReadJsonError>({ kind: "FILE_NOT_FOUND" }),
+  );
+
+  // replacing the file keeps the lock
+  assertEquals(await file.writeAtomic("{}"), ok(undefined));
+  assertEquals(
+    await file.lock({ timeoutMs: 0 }),
+    err<FileLockError>({ kind: "LOCKED", path: "/state.json" }),
+  );
+  await lock.value.release();
+});
+
+Deno.test("File.lock() - on disk", async () => {
+  // a directory, so that the lock file is removed with it
+  const temp = await Directory.temp();
+  assert(temp.success);
+  await using tempDirectory = temp.value;
+  const state = tempDirectory.directory.file("state.json");
+  assert(state.success);
+  const file = state.value;
+
+  {
+    await using _ = await holdLock(file);
+    // a second open file description conflicts even in the same process
+    assertEquals(
+      await file.lock({ timeoutMs: 0 }),
+      err<FileLockError>({ kind: "LOCKED", path: file.fullPath }),
+    );
+  }
+  await using _ = await holdLock(file);
+  assertEquals(await file.writeAtomic("{}"), ok(undefined));
+  assertEquals(
+    await file.lock({ timeoutMs: 0 }),
+    err<FileLockError>({ kind: "LOCKED", path: file.fullPath }),
+  );
+});
+
+async function holdLock(file: File) {
+  const lock = await file.lock({ timeoutMs: 0 });
+  assert(lock.success);
+  return lock.value;
+}
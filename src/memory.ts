@@ -0,0 +1,735 @@
+/**
+ * A {@link FileSystem} that keeps every directory, file and symbolic link in
+ * memory.
+ *
+ * It needs no permissions and starts with an empty root directory, which makes
+ * it a fast and isolated backend for tests. Failures are reported with the
+ * same `Deno.errors` classes the real filesystem throws, and symbolic links are
+ * followed the way the kernel does, including loop detection.
+ *
+ * @example Symbolic links in memory
+ * ```ts
+ * import { assert, assertEquals } from "@std/assert";
+ * import { MemoryFileSystem } from "./memory.ts";
+ * import { Directory } from "./path.ts";
+ *
+ * const fileSystem = new MemoryFileSystem();
+ * const root = Directory.build("/", { fileSystem });
+ * assert(root.success);
+ *
+ * const data = root.value.directory("data");
+ * assert(data.success);
+ * await data.value.mkdir();
+ *
+ * const link = await root.value.symlink("current", data.value);
+ * assert(link.success);
+ *
+ * const target = await link.value.targetDirectory();
+ * assert(target.success);
+ * assertEquals(target.value.fullPath, "/data");
+ * ```
+ */
+import type { FileSystem } from "./filesystem.ts";
+
+// Linux gives up with ELOOP after following this many links
+const MAX_SYMLINK_HOPS = 40;
+
+const STREAM_CHUNK_SIZE = 64 * 1024;
+
+// where temporary files go when no directory is given, created on first use
+const DEFAULT_TEMP_DIR = "/tmp";
+
+type MemoryNodeInfo = {
+  ino: number;
+  mode: number;
+  uid: number;
+  gid: number;
+  birthtime: Date;
+  atime: Date;
+  mtime: Date;
+  ctime: Date;
+};
+
+type MemoryDirectory = {
+  kind: "directory";
+  info: MemoryNodeInfo;
+  children: Map<string, MemoryNode>;
+};
+
+type MemoryFile = {
+  kind: "file";
+  info: MemoryNodeInfo;
+  content: Uint8Array;
+};
+
+type MemorySymlink = {
+  kind: "symlink";
+  info: MemoryNodeInfo;
+  target: string;
+};
+
+type MemoryNode = MemoryDirectory | MemoryFile | MemorySymlink;
+
+type Resolved = { node: MemoryNode; realPath: string };
+
+type MemoryLock = { exclusive: boolean; holders: number };
+
+type ResolvedParent = {
+  parent: MemoryDirectory;
+  parentPath: string;
+  name: string;
+};
+
+export class MemoryFileSystem implements FileSystem {
+  private nextIno = 1;
+  private readonly watchers = new Set<MemoryWatcher>();
+  private readonly locks = new Map<MemoryFile, MemoryLock>();
+  private readonly root: MemoryDirectory = {
+    kind: "directory",
+    info: this.newInfo(0o755),
+    children: new Map(),
+  };
+
+  stat(path: string): Promise<Deno.FileInfo> {
+    return Promise.resolve().then(() =>
+      fileInfo(this.resolve(path, true, "stat").node)
+    );
+  }
+
+  lstat(path: string): Promise<Deno.FileInfo> {
+    return Promise.resolve().then(() =>
+      fileInfo(this.resolve(path, false, "lstat").node)
+    );
+  }
+
+  mkdir(path: string): Promise<void> {
+    return Promise.resolve().then(() => this.createDirectory(path, 0o755));
+  }
+
+  makeTempDir(options: Deno.MakeTempOptions = {}): Promise<string> {
+    return Promise.resolve().then(() =>
+      this.createTemporary(options, (path) => this.createDirectory(path, 0o700))
+    );
+  }
+
+  makeTempFile(options: Deno.MakeTempOptions = {}): Promise<string> {
+    return Promise.resolve().then(() =>
+      this.createTemporary(options, (path) => {
+        const { parent, parentPath, name } = this.resolveParent(path, "open");
+        if (parent.children.has(name)) {
+          throw osError("EEXIST", "open", path);
+        }
+        parent.children.set(name, {
+          kind: "file",
+          info: this.newInfo(0o600),
+          content: new Uint8Array(),
+        });
+        this.notify("create", childPath(parentPath, name));
+      })
+    );
+  }
+
+  async *readDir(path: string): AsyncIterable<Deno.DirEntry> {
+    const { node } = this.resolve(path, true, "readdir");
+    if (node.kind !== "directory") {
+      throw osError("ENOTDIR", "readdir", path);
+    }
+
+    // a snapshot, so entries added or removed while iterating are not seen
+    for (const [name, child] of [...node.children]) {
+      yield {
+        name,
+        isFile: child.kind === "file",
+        isDirectory: child.kind === "directory",
+        isSymlink: child.kind === "symlink",
+      };
+    }
+  }
+
+  readTextFile(path: string): Promise<string> {
+    return this.readFile(path).then((content) =>
+      new TextDecoder().decode(content)
+    );
+  }
+
+  writeTextFile(path: string, data: string): Promise<void> {
+    return this.writeFile(path, new TextEncoder().encode(data));
+  }
+
+  readFile(path: string): Promise<Uint8Array> {
+    return Promise.resolve().then(() => this.openForRead(path).content.slice());
+  }
+
+  writeFile(
+    path: string,
+    data: Uint8Array,
+    options: { createNew?: boolean; mode?: number } = {},
+  ): Promise<void> {
+    return Promise.resolve().then(() => {
+      if (options.createNew) {
+        const { parent, name } = this.resolveParent(path, "open");
+        if (parent.children.has(name)) {
+          throw osError("EEXIST", "open", path);
+        }
+      }
+      const { file, realPath } = this.openForWrite(
+        path,
+        { count: 0 },
+        options.mode,
+      );
+      file.content = data.slice();
+      file.info.mtime = file.info.ctime = new Date();
+      this.notify("modify", realPath);
+    });
+  }
+
+  appendFile(
+    path: string,
+    data: Uint8Array,
+    options: { create: boolean },
+  ): Promise<void> {
+    return Promise.resolve().then(() => {
+      if (!options.create) {
+        // throws when there is nothing to append to
+        this.resolve(path, true, "open");
+      }
+      const { file, realPath } = this.openForWrite(path, { count: 0 });
+      const content = new Uint8Array(file.content.length + data.length);
+      content.set(file.content);
+      content.set(data, file.content.length);
+      file.content = content;
+      file.info.mtime = file.info.ctime = new Date();
+      this.notify("modify", realPath);
+    });
+  }
+
+  openReadable(path: string): Promise<ReadableStream<Uint8Array>> {
+    return Promise.resolve().then(() => {
+      // later writes to the file do not show up in the stream
+      const content = this.openForRead(path).content;
+      let offset = 0;
+      return new ReadableStream<Uint8Array>({
+        type: "bytes",
+        pull(controller) {
+          if (offset >= content.length) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(content.slice(offset, offset + STREAM_CHUNK_SIZE));
+          offset += STREAM_CHUNK_SIZE;
+        },
+      });
+    });
+  }
+
+  openWritable(path: string): Promise<WritableStream<Uint8Array>> {
+    return Promise.resolve().then(() => {
+      const { file, realPath } = this.openForWrite(path, { count: 0 });
+      file.content = new Uint8Array();
+      file.info.mtime = file.info.ctime = new Date();
+      this.notify("modify", realPath);
+      return new WritableStream<Uint8Array>({
+        write: (chunk) => {
+          const content = new Uint8Array(file.content.length + chunk.length);
+          content.set(file.content);
+          content.set(chunk, file.content.length);
+          file.content = content;
+          file.info.mtime = file.info.ctime = new Date();
+          this.notify("modify", realPath);
+        },
+      });
+    });
+  }
+
+  symlink(target: string, path: string): Promise<void> {
+    return Promise.resolve().then(() => {
+      const { parent, parentPath, name } = this.resolveParent(path, "symlink");
+      if (parent.children.has(name)) {
+        throw osError("EEXIST", "symlink", path);
+      }
+      parent.children.set(name, {
+        kind: "symlink",
+        info: this.newInfo(0o777),
+        target,
+      });
+      this.notify("create", childPath(parentPath, name));
+    });
+  }
+
+  readLink(path: string): Promise<string> {
+    return Promise.resolve().then(() => {
+      const { node } = this.resolve(path, false, "readlink");
+      if (node.kind !== "symlink") {
+        throw osError("EINVAL", "readlink", path);
+      }
+      return node.target;
+    });
+  }
+
+  realPath(path: string): Promise<string> {
+    return Promise.resolve().then(() =>
+      this.resolve(path, true, "realpath").realPath
+    );
+  }
+
+  remove(path: string, options: { recursive?: boolean } = {}): Promise<void> {
+    return Promise.resolve().then(() => {
+      const { parent, parentPath, name } = this.resolveParent(path, "remove");
+      const node = parent.children.get(name);
+      if (node === undefined) {
+        throw osError("ENOENT", "remove", path);
+      }
+      if (
+        node.kind === "directory" && node.children.size > 0 &&
+        !options.recursive
+      ) {
+        throw osError("ENOTEMPTY", "remove", path);
+      }
+      parent.children.delete(name);
+      this.notify("remove", childPath(parentPath, name));
+    });
+  }
+
+  rename(oldPath: string, newPath: string): Promise<void> {
+    return Promise.resolve().then(() => {
+      const from = this.resolveParent(oldPath, "rename");
+      const node = from.parent.children.get(from.name);
+      if (node === undefined) {
+        throw osError("ENOENT", "rename", oldPath, newPath);
+      }
+
+      const to = this.resolveParent(newPath, "rename");
+      const existing = to.parent.children.get(to.name);
+      if (existing === node) {
+        return;
+      }
+
+      if (node.kind === "directory") {
+        const source = "/" +
+          [...splitPath(from.parentPath), from.name].join("/");
+        if (
+          to.parentPath === source || to.parentPath.startsWith(source + "/")
+        ) {
+          throw osError("EINVAL", "rename", oldPath, newPath);
+        }
+        if (existing?.kind === "directory" && existing.children.size > 0) {
+          throw osError("ENOTEMPTY", "rename", oldPath, newPath);
+        }
+        if (existing !== undefined && existing.kind !== "directory") {
+          throw osError("ENOTDIR", "rename", oldPath, newPath);
+        }
+      } else if (existing?.kind === "directory") {
+        throw osError("EISDIR", "rename", oldPath, newPath);
+      }
+
+      from.parent.children.delete(from.name);
+      to.parent.children.set(to.name, node);
+      this.notify(
+        "rename",
+        childPath(from.parentPath, from.name),
+        childPath(to.parentPath, to.name),
+      );
+    });
+  }
+
+  copyFile(fromPath: string, toPath: string): Promise<void> {
+    return Promise.resolve().then(() => {
+      const { node } = this.resolve(fromPath, true, "copy");
+      if (node.kind !== "file") {
+        throw osError("EISDIR", "copy", fromPath, toPath);
+      }
+
+      const { file, realPath } = this.openForWrite(toPath, { count: 0 });
+      file.content = node.content.slice();
+      file.info.mode = node.info.mode;
+      file.info.mtime = file.info.ctime = new Date();
+      this.notify("modify", realPath);
+    });
+  }
+
+  utime(path: string, atime: Date, mtime: Date): Promise<void> {
+    return Promise.resolve().then(() => {
+      const { node, realPath } = this.resolve(path, true, "utime");
+      node.info.atime = atime;
+      node.info.mtime = mtime;
+      node.info.ctime = new Date();
+      this.notify("modify", realPath);
+    });
+  }
+
+  chmod(path: string, mode: number): Promise<void> {
+    return Promise.resolve().then(() => {
+      const { node, realPath } = this.resolve(path, true, "chmod");
+      node.info.mode = mode & 0o7777;
+      node.info.ctime = new Date();
+      this.notify("modify", realPath);
+    });
+  }
+
+  chown(path: string, uid: number | null, gid: number | null): Promise<void> {
+    return Promise.resolve().then(() => {
+      const { node, realPath } = this.resolve(path, true, "chown");
+      node.info.uid = uid ?? node.info.uid;
+      node.info.gid = gid ?? node.info.gid;
+      node.info.ctime = new Date();
+      this.notify("modify", realPath);
+    });
+  }
+
+  // everything is always on "disk", so this only checks that `path` exists
+  sync(path: string): Promise<void> {
+    return Promise.resolve().then(() => {
+      this.resolve(path, true, "fsync");
+    });
+  }
+
+  tryLock(
+    path: string,
+    exclusive: boolean,
+  ): Promise<{ unlock(): Promise<void> } | undefined> {
+    return Promise.resolve().then(() => {
+      const { file } = this.openForWrite(path, { count: 0 });
+      const held = this.locks.get(file);
+      if (held !== undefined && (held.exclusive || exclusive)) {
+        return undefined;
+      }
+      this.locks.set(file, { exclusive, holders: (held?.holders ?? 0) + 1 });
+
+      let unlocked = false;
+      return {
+        unlock: () =>
+          Promise.resolve().then(() => {
+            const lock = this.locks.get(file);
+            if (unlocked || lock === undefined) {
+              return;
+            }
+            unlocked = true;
+            lock.holders -= 1;
+            if (lock.holders === 0) {
+              this.locks.delete(file);
+            }
+          }),
+      };
+    });
+  }
+
+  watch(
+    path: string,
+    options: { recursive: boolean },
+  ): AsyncIterable<Deno.FsEvent> & { close(): void } {
+    const { realPath } = this.resolve(path, true, "watch");
+    const watcher = new MemoryWatcher(
+      realPath,
+      options.recursive,
+      () => this.watchers.delete(watcher),
+    );
+    this.watchers.add(watcher);
+    return watcher;
+  }
+
+  private createDirectory(path: string, mode: number): void {
+    const { parent, parentPath, name } = this.resolveParent(path, "mkdir");
+    if (parent.children.has(name)) {
+      throw osError("EEXIST", "mkdir", path);
+    }
+    parent.children.set(name, {
+      kind: "directory",
+      info: this.newInfo(mode),
+      children: new Map(),
+    });
+    this.notify("create", childPath(parentPath, name));
+  }
+
+  // `paths` are real paths, like the kernel reports them
+  private notify(kind: Deno.FsEvent["kind"], ...paths: string[]): void {
+    for (const watcher of this.watchers) {
+      if (paths.some((path) => watcher.watches(path))) {
+        watcher.push({ kind, paths });
+      }
+    }
+  }
+
+  // Tries random names until `create` finds one that is not taken
+  private createTemporary(
+    options: Deno.MakeTempOptions,
+    create: (path: string) => void,
+  ): string {
+    let dir = options.dir;
+    if (dir === undefined) {
+      dir = DEFAULT_TEMP_DIR;
+      if (!this.root.children.has(dir.substring(1))) {
+        this.createDirectory(dir, 0o777);
+      }
+    }
+
+    const parent = dir.endsWith("/") ? dir : `${dir}/`;
+    for (;;) {
+      const random = crypto.randomUUID().replaceAll("-", "").slice(0, 12);
+      const path = `${parent}${options.prefix ?? ""}${random}${
+        options.suffix ?? ""
+      }`;
+      try {
+        create(path);
+        return path;
+      } catch (error) {
+        if (!(error instanceof Deno.errors.AlreadyExists)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private newInfo(mode: number): MemoryNodeInfo {
+    const now = new Date();
+    return {
+      ino: this.nextIno++,
+      mode,
+      uid: 0,
+      gid: 0,
+      birthtime: now,
+      atime: now,
+      mtime: now,
+      ctime: now,
+    };
+  }
+
+  private openForRead(path: string): MemoryFile {
+    const { node } = this.resolve(path, true, "open");
+    // links are followed, so anything but a file is a directory
+    if (node.kind !== "file") {
+      throw osError("EISDIR", "read", path);
+    }
+    return node;
+  }
+
+  // Finds the file a write to `path` lands in, creating it when missing and
+  // following a symbolic link at the last segment like open(2) does
+  private openForWrite(
+    path: string,
+    hops: { count: number },
+    mode = 0o644,
+  ): { file: MemoryFile; realPath: string } {
+    const { parent, parentPath, name } = this.resolveParent(path, "open");
+    const node = parent.children.get(name);
+    const realPath = childPath(parentPath, name);
+
+    if (node === undefined) {
+      const file: MemoryFile = {
+        kind: "file",
+        info: this.newInfo(mode & 0o7777),
+        content: new Uint8Array(),
+      };
+      parent.children.set(name, file);
+      this.notify("create", realPath);
+      return { file, realPath };
+    }
+
+    switch (node.kind) {
+      case "file": {
+        return { file: node, realPath };
+      }
+      case "directory": {
+        throw osError("EISDIR", "open", path);
+      }
+      case "symlink": {
+        hops.count += 1;
+        if (hops.count > MAX_SYMLINK_HOPS) {
+          throw osError("ELOOP", "open", path);
+        }
+        return this.openForWrite(
+          joinTarget(parentPath, node.target),
+          hops,
+          mode,
+        );
+      }
+    }
+  }
+
+  private resolveParent(path: string, syscall: string): ResolvedParent {
+    const segments = splitPath(path);
+    const name = segments.pop();
+    if (name === undefined || name === "..") {
+      // the root, or a path that cannot name a new entry
+      throw osError("EEXIST", syscall, path);
+    }
+
+    const parentPath = "/" + segments.join("/");
+    const { node, realPath } = this.resolve(parentPath, true, syscall);
+    if (node.kind !== "directory") {
+      throw osError("ENOTDIR", syscall, path);
+    }
+    return { parent: node, parentPath: realPath, name };
+  }
+
+  // Walks `path` from the root, following symbolic links in every segment and
+  // in the last one only when `followLast` is set
+  private resolve(
+    path: string,
+    followLast: boolean,
+    syscall: string,
+    hops = { count: 0 },
+  ): Resolved {
+    const segments = splitPath(path);
+    let node: MemoryNode = this.root;
+    let realSegments: string[] = [];
+
+    for (const [index, segment] of segments.entries()) {
+      if (node.kind !== "directory") {
+        throw osError("ENOTDIR", syscall, path);
+      }
+
+      if (segment === "..") {
+        realSegments.pop();
+        node = this.resolve("/" + realSegments.join("/"), true, syscall).node;
+        continue;
+      }
+
+      const child = node.children.get(segment);
+      if (child === undefined) {
+        throw osError("ENOENT", syscall, path);
+      }
+
+      const last = index === segments.length - 1;
+      if (child.kind === "symlink" && (followLast || !last)) {
+        hops.count += 1;
+        if (hops.count > MAX_SYMLINK_HOPS) {
+          throw osError("ELOOP", syscall, path);
+        }
+        const target = joinTarget("/" + realSegments.join("/"), child.target);
+        const resolved = this.resolve(target, true, syscall, hops);
+        node = resolved.node;
+        realSegments = splitPath(resolved.realPath);
+      } else {
+        node = child;
+        realSegments.push(segment);
+      }
+    }
+
+    return { node, realPath: "/" + realSegments.join("/") };
+  }
+}
+
+// Queues the events of one `watch()` call until they are read
+class MemoryWatcher implements AsyncIterable<Deno.FsEvent> {
+  private readonly events: Deno.FsEvent[] = [];
+  private wake: (() => void) | undefined;
+  private closed = false;
+
+  constructor(
+    private readonly path: string,
+    private readonly recursive: boolean,
+    private readonly onClose: () => void,
+  ) {}
+
+  watches(path: string): boolean {
+    if (path === this.path) {
+      return true;
+    }
+    const prefix = this.path === "/" ? "/" : `${this.path}/`;
+    if (!path.startsWith(prefix)) {
+      return false;
+    }
+    return this.recursive || !path.substring(prefix.length).includes("/");
+  }
+
+  push(event: Deno.FsEvent): void {
+    this.events.push(event);
+    this.wake?.();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.onClose();
+    this.wake?.();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<Deno.FsEvent> {
+    for (;;) {
+      const event = this.events.shift();
+      if (event !== undefined) {
+        yield event;
+      } else if (this.closed) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => this.wake = resolve);
+        this.wake = undefined;
+      }
+    }
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter((segment) =>
+    segment.length > 0 && segment !== "."
+  );
+}
+
+function childPath(parentPath: string, name: string): string {
+  return parentPath === "/" ? `/${name}` : `${parentPath}/${name}`;
+}
+
+// A link target is relative to the directory holding the link
+function joinTarget(linkParent: string, target: string): string {
+  return target.startsWith("/") ? target : `${linkParent}/${target}`;
+}
+
+const OS_ERRORS = {
+  ENOENT: [2, "No such file or directory", Deno.errors.NotFound],
+  EEXIST: [17, "File exists", Deno.errors.AlreadyExists],
+  ENOTDIR: [20, "Not a directory", Deno.errors.NotADirectory],
+  EISDIR: [21, "Is a directory", Deno.errors.IsADirectory],
+  EINVAL: [22, "Invalid argument", Error],
+  ENOTEMPTY: [39, "Directory not empty", Error],
+  ELOOP: [40, "Too many levels of symbolic links", Deno.errors.FilesystemLoop],
+} as const;
+
+// Mirrors the errors thrown by `Deno.*`, including their `code`
+function osError(
+  code: keyof typeof OS_ERRORS,
+  syscall: string,
+  ...paths: string[]
+): Error {
+  const [errno, description, ErrorClass] = OS_ERRORS[code];
+  const quoted = paths.map((path) => `'${path}'`).join(" -> ");
+  const error = new ErrorClass(
+    `${description} (os error ${errno}): ${syscall} ${quoted}`,
+  );
+  return Object.assign(error, { code });
+}
+
+function fileInfo(node: MemoryNode): Deno.FileInfo {
+  const size = node.kind === "file"
+    ? node.content.length
+    : node.kind === "symlink"
+    ? node.target.length
+    : 0;
+  const typeBits = node.kind === "directory"
+    ? 0o040000
+    : node.kind === "symlink"
+    ? 0o120000
+    : 0o100000;
+
+  return {
+    isFile: node.kind === "file",
+    isDirectory: node.kind === "directory",
+    isSymlink: node.kind === "symlink",
+    size,
+    mtime: node.info.mtime,
+    atime: node.info.atime,
+    birthtime: node.info.birthtime,
+    ctime: node.info.ctime,
+    dev: 0,
+    ino: node.info.ino,
+    mode: typeBits | node.info.mode,
+    nlink: node.kind === "directory" ? 2 : 1,
+    uid: node.info.uid,
+    gid: node.info.gid,
+    rdev: 0,
+    blksize: 4096,
+    blocks: Math.ceil(size / 512),
+    isBlockDevice: false,
+    isCharDevice: false,
+    isFifo: false,
+    isSocket: false,
+  };
+}
@@ -0,0 +1,328 @@
+import { assert, assertEquals } from "@std/assert";
+import { err, ok } from "@coint/simple";
+import { MemoryFileSystem } from "./memory.ts";
+import {
+  type ChmodError,
+  Directory,
+  File,
+  Path,
+  PathType,
+  type SymlinkError,
+} from "./path.ts";
+import { denoFileSystem } from "./filesystem.ts";
+import { assertStrictEquals } from "@std/assert/strict-equals";
+
+function memoryRoot(): Directory {
+  const root = Directory.build("/", { fileSystem: new MemoryFileSystem() });
+  assert(root.success);
+  return root.value;
+}
+
+Deno.test("MemoryFileSystem - inherited by derived paths", () => {
+  const fileSystem = new MemoryFileSystem();
+  const dir = Directory.build("/a/b", { fileSystem });
+  assert(dir.success);
+  assertStrictEquals(dir.value.fileSystem, fileSystem);
+  assertStrictEquals(dir.value.parent?.fileSystem, fileSystem);
+
+  const file = dir.value.file("c.txt");
+  assert(file.success);
+  assertStrictEquals(file.value.fileSystem, fileSystem);
+
+  const renamed = file.value.withName("d.txt");
+  assert(renamed.success);
+  assertStrictEquals(renamed.value.fileSystem, fileSystem);
+});
+
+Deno.test("MemoryFileSystem - Deno backend by default", () => {
+  const dir = Directory.build("/a");
+  assert(dir.success);
+  assertStrictEquals(dir.value.fileSystem, denoFileSystem);
+});
+
+Deno.test("MemoryFileSystem - mkdir and exists", async () => {
+  const root = memoryRoot();
+  const dir = root.directory("a");
+  assert(dir.success);
+
+  assertEquals(await dir.value.exists(), ok(false));
+  assertEquals(await dir.value.mkdir(), ok(true));
+  assertEquals(await dir.value.exists(), ok(true));
+  assertEquals(await dir.value.mkdir(), ok(false));
+  assertEquals(await root.mkdir(), ok(false));
+});
+
+Deno.test("MemoryFileSystem - mkdir without parent", async () => {
+  const dir = Directory.build("/a/b", { fileSystem: new MemoryFileSystem() });
+  assert(dir.success);
+  assertEquals(await dir.value.mkdir(), err({ kind: "PARENT_NOT_FOUND" }));
+  assertEquals(await dir.value.mkdirp(), ok(true));
+  assertEquals(await dir.value.exists(), ok(true));
+});
+
+Deno.test("MemoryFileSystem - write and read", async () => {
+  const root = memoryRoot();
+  const file = root.file("notes.txt");
+  assert(file.success);
+
+  assertEquals(await file.value.exists(), ok(false));
+  assertEquals(await file.value.write("first"), ok(undefined));
+  assertEquals(await file.value.write("second"), ok(undefined));
+  assertEquals(await file.value.read(), ok("second"));
+  assertEquals(await file.value.exists(), ok(true));
+});
+
+Deno.test("MemoryFileSystem - file errors", async () => {
+  const root = memoryRoot();
+  const missing = File.parse("/missing/a.txt", {
+    fileSystem: root.fileSystem,
+  });
+  assert(missing.success);
+  assertEquals(
+    await missing.value.write("x"),
+    err({ kind: "PARENT_NOT_FOUND" }),
+  );
+
+  const dir = root.directory("dir");
+  assert(dir.success);
+  await dir.value.mkdir();
+  const asFile = root.file("dir");
+  assert(asFile.success);
+  assertEquals(await asFile.value.read(), err({ kind: "IS_DIRECTORY" }));
+  assertEquals(await asFile.value.write("x"), err({ kind: "IS_DIRECTORY" }));
+
+  // a file in the middle of the path
+  const file = root.file("file");
+  assert(file.success);
+  await file.value.write("x");
+  const below = Directory.build("/file/below", { fileSystem: root.fileSystem });
+  assert(below.success);
+  assertEquals(await below.value.exists(), err({ kind: "FILE_EXISTS" }));
+});
+
+Deno.test("MemoryFileSystem - list", async () => {
+  const root = memoryRoot();
+  const dir = root.directory("dir");
+  const file = root.file("file.txt");
+  assert(dir.success && file.success);
+  await dir.value.mkdir();
+  await file.value.write("");
+  await root.symlink("link", file.value);
+
+  const entries: [string, PathType][] = [];
+  for await (const entry of root.list()) {
+    assert(entry.success);
+    entries.push([entry.value.name, entry.value.kind]);
+  }
+  assertEquals(entries.sort(), [
+    ["dir", PathType.Directory],
+    ["file.txt", PathType.File],
+    ["link", PathType.SymbolicLink],
+  ]);
+});
+
+Deno.test("MemoryFileSystem - symlinks", async () => {
+  const root = memoryRoot();
+  const dir = root.directory("data");
+  assert(dir.success);
+  await dir.value.mkdir();
+  const file = dir.value.file("a.txt");
+  assert(file.success);
+  await file.value.write("content");
+
+  const link = await root.symlink("current", dir.value);
+  assert(link.success);
+  assertEquals(await link.value.exists(), ok(true));
+  assertEquals(await link.value.readLink(), ok("/data"));
+  assertEquals(
+    await root.symlink("current", dir.value),
+    err<SymlinkError>({ kind: "ALREADY_EXISTS" }),
+  );
+
+  // reading through the link
+  const throughLink = File.parse("/current/a.txt", {
+    fileSystem: root.fileSystem,
+  });
+  assert(throughLink.success);
+  assertEquals(await throughLink.value.read(), ok("content"));
+
+  const canonical = await throughLink.value.canonicalize();
+  assert(canonical.success);
+  assertEquals(canonical.value.fullPath, "/data/a.txt");
+  assertStrictEquals(canonical.value.fileSystem, root.fileSystem);
+});
+
+Deno.test("MemoryFileSystem - dangling and looping symlinks", async () => {
+  const root = memoryRoot();
+  const missing = root.file("missing");
+  const first = root.symbolicLink("first");
+  assert(missing.success && first.success);
+
+  const dangling = await root.symlink("dangling", missing.value);
+  assert(dangling.success);
+  assertEquals(
+    await dangling.value.target(),
+    err({ kind: "DANGLING", target: "/missing" }),
+  );
+
+  const second = await root.symlink("second", first.value);
+  assert(second.success);
+  await root.symlink("first", second.value);
+  assertEquals(
+    await second.value.target(),
+    err({ kind: "LOOP_DETECTED" }),
+  );
+});
+
+Deno.test("MemoryFileSystem - Path.detect finds the kind", async () => {
+  const root = memoryRoot();
+  const file = root.file("a.txt");
+  assert(file.success);
+  await file.value.write("");
+
+  const parsed = await Path.detect("/a.txt", { fileSystem: root.fileSystem });
+  assert(parsed.success);
+  assert(parsed.value instanceof File);
+  assertStrictEquals(parsed.value.fileSystem, root.fileSystem);
+
+  assertEquals(
+    await Path.detect("/b.txt", { fileSystem: root.fileSystem }),
+    err({ kind: "NOT_FOUND", path: "/b.txt" }),
+  );
+});
+
+// A filesystem where every rename crosses a device
+class CrossDeviceFileSystem extends MemoryFileSystem {
+  override rename(oldPath: string, newPath: string): Promise<void> {
+    const error = new Error(
+      `Invalid cross-device link (os error 18): rename '${oldPath}' -> '${newPath}'`,
+    );
+    return Promise.reject(Object.assign(error, { code: "EXDEV" }));
+  }
+}
+
+Deno.test("MemoryFileSystem - moves fall back to copy across devices", async () => {
+  const root = Directory.build("/", {
+    fileSystem: new CrossDeviceFileSystem(),
+  });
+  assert(root.success);
+  const source = root.value.directory("source");
+  assert(source.success);
+  await source.value.mkdir();
+  const file = source.value.file("a.txt");
+  assert(file.success);
+  await file.value.write("a");
+  const other = source.value.file("b.txt");
+  assert(other.success);
+
+  const moved = await file.value.moveTo(other.value);
+  assert(moved.success);
+  assertEquals(await file.value.exists(), ok(false));
+  assertEquals(await other.value.read(), ok("a"));
+
+  const destination = root.value.directory("destination");
+  assert(destination.success);
+  const movedDirectory = await source.value.moveTo(destination.value);
+  assert(movedDirectory.success);
+  assertEquals(await source.value.exists(), ok(false));
+
+  const movedFile = destination.value.file("b.txt");
+  assert(movedFile.success);
+  assertEquals(await movedFile.value.read(), ok("a"));
+});
+
+Deno.test("MemoryFileSystem - metadata", async () => {
+  const root = memoryRoot();
+  const file = root.file("a.txt");
+  assert(file.success);
+  await file.value.write("abc");
+
+  assertEquals(await file.value.chown(1000, undefined), ok(undefined));
+  assertEquals(await file.value.chmod(0o600), ok(undefined));
+  assertEquals(
+    await file.value.chmod(0o10000),
+    err<ChmodError>({ kind: "INVALID_MODE", mode: 0o10000 }),
+  );
+
+  const info = await file.value.stat();
+  assert(info.success);
+  assertEquals(info.value.size, 3);
+  assertEquals(info.value.mode, 0o600);
+  assertEquals(info.value.uid, 1000);
+  assertEquals(info.value.gid, 0);
+
+  const missing = root.file("missing");
+  assert(missing.success);
+  assertEquals(
+    await missing.value.utime(new Date(), new Date()),
+    err({ kind: "NOT_FOUND", path: "/missing" }),
+  );
+  assertEquals(
+    await missing.value.stat(),
+    err({ kind: "NOT_FOUND", path: "/missing" }),
+  );
+});
+
+Deno.test("MemoryFileSystem - bytes and streams", async () => {
+  const root = memoryRoot();
+  const file = root.file("data.bin");
+  const copy = root.file("copy.bin");
+  assert(file.success && copy.success);
+
+  // larger than one stream chunk
+  const data = new Uint8Array(100_000).map((_, index) => index % 251);
+  assertEquals(await file.value.writeBytes(data), ok(undefined));
+  assertEquals(await file.value.readBytes(), ok(data));
+
+  const readable = await file.value.readable();
+  const writable = await copy.value.writable();
+  assert(readable.success && writable.success);
+  await readable.value.pipeTo(writable.value);
+  assertEquals(await copy.value.readBytes(), ok(data));
+
+  const missing = root.file("missing");
+  assert(missing.success);
+  assertEquals(
+    await missing.value.readable(),
+    err({ kind: "FILE_NOT_FOUND" }),
+  );
+});
+
+Deno.test("MemoryFileSystem - failed atomic write leaves no temporary file", async () => {
+  const root = Directory.build("/", {
+    fileSystem: new CrossDeviceFileSystem(),
+  });
+  assert(root.success);
+  const file = root.value.file("state.json");
+  assert(file.success);
+  await file.value.write("old");
+
+  const written = await file.value.writeAtomic("new");
+  assert(!written.success);
+  assertEquals(written.error.kind, "RENAME_FAILED");
+  assertEquals(await file.value.read(), ok("old"));
+
+  const names = [];
+  for await (const entry of root.value.list()) {
+    assert(entry.success);
+    names.push(entry.value.name);
+  }
+  assertEquals(names, ["state.json"]);
+});
+
+Deno.test("MemoryFileSystem - lines across stream chunks", async () => {
+  const root = memoryRoot();
+  const file = root.file("big.jsonl");
+  assert(file.success);
+
+  // lines and "\r\n" endings straddle the 64 KiB chunk boundaries
+  const lines = Array.from({ length: 20_000 }, (_, index) => `{"n":${index}}`);
+  await file.value.write(lines.join("\r\n") + "\r\n");
+
+  const read: string[] = [];
+  for await (const line of file.value.lines()) {
+    assert(line.success);
+    read.push(line.value);
+  }
+  assertEquals(read, lines);
+});
@@ -1,9 +1,80 @@
 import { err, ExhaustiveCaseError, ok, type Result } from "@coint/simple";
 import {
+  type FileName,
+  fileName,
+  fileNameEquals,
+  type FileNameEqualsOptions,
+  fileNameStem,
+  fileNameSuffix,
+  fileNameSuffixes,
   fileNameValidate,
   type FileNameValidateError,
   fileNameValidationErrorsToStrings,
 } from "./filename.ts";
+import {
+  envAbsolutePath,
+  type EnvError,
+  envErrorToString,
+  type EnvOptions,
+  pathExpand,
+  type PathExpandOptions,
+  type XdgBaseDirectory,
+  xdgBasePath,
+} from "./env.ts";
+import { denoFileSystem, type FileSystem } from "./filesystem.ts";
+import {
+  globMatched,
+  type GlobOptions,
+  globParse,
+  type GlobPattern,
+  globPending,
+  type GlobPosition,
+  globStart,
+  globStep,
+  type GlobSyntaxError,
+  globSyntaxErrorToString,
+} from "./glob.ts";
+import {
+  type PathInfo,
+  pathInfo,
+  type Permissions,
+  permissionsToMode,
+} from "./info.ts";
+import {
+  type FileLock,
+  fileLockAcquire,
+  type FileLockError,
+  type LockOptions,
+} from "./lock.ts";
+import {
+  jsonParse,
+  type JsonParseError,
+  jsonParseErrorToString,
+} from "./json.ts";
+import {
+  RelativePath,
+  type RelativePathResolveError,
+  type RelativePathSegment,
+} from "./relative.ts";
+import {
+  type TempCreateError,
+  TempDirectory,
+  TempFile,
+  type TempOptions,
+} from "./temp.ts";
+import {
+  type FileUrlError,
+  fileUrlErrorToString,
+  fileUrlFromPath,
+  fileUrlToPath,
+} from "./url.ts";
+import {
+  DirectoryWatcher,
+  type WatchChange,
+  type WatchEvent,
+  type WatchEventError,
+  type WatchOptions,
+} from "./watch.ts";
 
 // OPT :: we will support only POSIX path for now
 export enum PathType {
@@ -16,11 +87,101 @@ export abstract class AbstractPath {
   constructor(readonly name: string) {}
 
   abstract kind: PathType;
+  abstract readonly fullPath: string;
+  abstract readonly fileSystem: FileSystem;
+  abstract readonly parent: Directory | undefined;
+
+  // 0 for the root directory
+  get depth(): number {
+    return [...this.parents()].length;
+  }
+
+  // The directories above this path, from its parent up to the root
+  *parents(): Generator<Directory> {
+    let current = this.parent;
+    while (current !== undefined) {
+      yield current;
+      current = current.parent;
+    }
+  }
+
+  // Somewhere below `directory`, which is not a descendant of itself
+  isDescendantOf(
+    directory: Directory,
+    options: FileNameEqualsOptions = {},
+  ): boolean {
+    return directory.isAncestorOf(this, options);
+  }
+
+  // Orders by the names from the root down, so a directory comes right before
+  // its contents; the same path as a directory, file and symbolic link comes
+  // in that order
+  compare(other: AbstractPath): number {
+    const names = [...this.parents()].reverse().map(({ name }): string => name);
+    const otherNames = [...other.parents()].reverse().map(({ name }): string =>
+      name
+    );
+    names.push(this.name);
+    otherNames.push(other.name);
+    for (let i = 0; i < names.length && i < otherNames.length; i++) {
+      const name = names[i] ?? "";
+      const otherName = otherNames[i] ?? "";
+      if (name !== otherName) {
+        return name < otherName ? -1 : 1;
+      }
+    }
+    return names.length - otherNames.length || this.kind - other.kind;
+  }
+
+  // The same kind of path on the same filesystem, with full paths compared
+  // exactly unless the options say otherwise
+  equals(other: AbstractPath, options: FileNameEqualsOptions = {}): boolean {
+    return this.kind === other.kind &&
+      this.fileSystem === other.fileSystem &&
+      fileNameEquals(this.fullPath, other.fullPath, options);
+  }
+
+  // The percent-encoded `file:` URL
+  toFileUrl(): URL {
+    return fileUrlFromPath(this.fullPath);
+  }
+
+  // Only the kind and full path, without the parent chain or filesystem, so
+  // paths can go into JSON; Path.fromJSON() reads them back. Paths hold their
+  // filesystem's functions and cannot be structured cloned, so send
+  // `path.toJSON()` through postMessage() instead
+  toJSON(): PathJson {
+    return { kind: PATH_JSON_KINDS[this.kind], path: this.fullPath };
+  }
+
+  get stem(): string {
+    return fileNameStem(this.name);
+  }
+
+  get suffix(): string {
+    return fileNameSuffix(this.name);
+  }
+
+  get suffixes(): string[] {
+    return fileNameSuffixes(this.name);
+  }
 }
 
 export class Directory extends AbstractPath {
-  private constructor(name: string, readonly parent: Directory | undefined) {
+  // shared by every path derived from the root
+  readonly fileSystem: FileSystem;
+
+  // Takes the name as validated, for building many children cheaply
+  constructor(name: FileName, parent: Directory);
+  // The root directory, whose name is empty
+  constructor(name: "", parent: undefined, fileSystem?: FileSystem);
+  constructor(
+    override readonly name: FileName | "",
+    readonly parent: Directory | undefined,
+    fileSystem?: FileSystem,
+  ) {
     super(name);
+    this.fileSystem = fileSystem ?? parent?.fileSystem ?? denoFileSystem;
   }
 
   readonly kind = PathType.Directory;
@@ -37,6 +198,38 @@ export class Directory extends AbstractPath {
     return parentFullPath + joiner + this.name;
   }
 
+  // Ends with "/", so Path.fromFileUrl() reads it back as a directory
+  override toFileUrl(): URL {
+    return fileUrlFromPath(
+      this.parent === undefined ? "/" : `${this.fullPath}/`,
+    );
+  }
+
+  withName(name: string): Result<Directory, NameChangeError> {
+    if (this.parent === undefined) {
+      return err({ kind: "ROOT_DIRECTORY" });
+    }
+
+    const validatedName = fileNameValidate(name);
+    if (!validatedName.success) {
+      return err({ kind: "INVALID_NAME", name, errors: validatedName.error });
+    }
+
+    return ok(new Directory(validatedName.value, this.parent));
+  }
+
+  withStem(stem: string): Result<Directory, NameChangeError> {
+    return this.withName(stem + this.suffix);
+  }
+
+  withSuffix(suffix: string): Result<Directory, NameChangeError> {
+    const name = replaceSuffix(this.name, suffix);
+    if (!name.success) {
+      return name;
+    }
+    return this.withName(name.value);
+  }
+
   directory(name: string): Result<Directory, FileNameValidateError[]> {
     const validatedName = fileNameValidate(name);
     if (!validatedName.success) {
@@ -50,9 +243,133 @@ export class Directory extends AbstractPath {
     return File.build(name, this);
   }
 
+  // Whether `path` is somewhere below this directory
+  isAncestorOf(
+    path: AbstractPath,
+    options: FileNameEqualsOptions = {},
+  ): boolean {
+    const parents = [...path.parents()];
+    const ancestor = parents[parents.length - this.depth - 1];
+    return ancestor !== undefined && this.equals(ancestor, options);
+  }
+
+  // The deepest directory that is or contains every path, undefined when
+  // there are none or they are on different filesystems
+  static commonAncestor(...paths: Path[]): Directory | undefined {
+    let common: Directory[] | undefined;
+    for (const path of paths) {
+      // from the root down, including a directory itself
+      const lineage = [...path.parents()].reverse();
+      if (path instanceof Directory) {
+        lineage.push(path);
+      }
+      if (common === undefined) {
+        common = lineage;
+        continue;
+      }
+      const differs = common.findIndex((directory, i) => {
+        const other = lineage[i];
+        return other === undefined || !directory.equals(other);
+      });
+      if (differs !== -1) {
+        common = common.slice(0, differs);
+      }
+    }
+    return common?.at(-1);
+  }
+
+  resolve(relative: RelativePath): Result<Directory, RelativePathResolveError> {
+    return Directory.descend(this, relative.segments, relative);
+  }
+
+  resolveFile(relative: RelativePath): Result<File, RelativePathResolveError> {
+    const name = relative.segments.at(-1);
+    if (name === undefined || name === "..") {
+      return err({ kind: "NO_FILE_NAME", path: relative.toString() });
+    }
+
+    const parent = Directory.descend(
+      this,
+      relative.segments.slice(0, -1),
+      relative,
+    );
+    if (!parent.success) {
+      return parent;
+    }
+
+    return ok(new File(name, parent.value));
+  }
+
+  relativeTo(base: Directory): RelativePath {
+    return RelativePath.between(base, this);
+  }
+
+  async canonicalize(): Promise<Result<Directory, DirectoryCanonicalizeError>> {
+    const canonical = await canonicalPath(this.fullPath, this.fileSystem);
+    if (!canonical.success) {
+      return canonical;
+    }
+    if (!(canonical.value instanceof Directory)) {
+      return err({ kind: "NOT_DIRECTORY", path: canonical.value.fullPath });
+    }
+    return ok(canonical.value);
+  }
+
+  private static descend(
+    base: Directory,
+    segments: readonly RelativePathSegment[],
+    relative: RelativePath,
+  ): Result<Directory, RelativePathResolveError> {
+    let current = base;
+    for (const segment of segments) {
+      if (segment === "..") {
+        if (current.parent === undefined) {
+          return err({ kind: "ABOVE_ROOT", path: relative.toString() });
+        }
+        current = current.parent;
+      } else {
+        current = new Directory(segment, current);
+      }
+    }
+    return ok(current);
+  }
+
+  symbolicLink(name: string): Result<SymbolicLink, FileNameValidateError[]> {
+    return SymbolicLink.build(name, this);
+  }
+
+  async symlink(
+    name: string,
+    target: Path,
+  ): Promise<Result<SymbolicLink, SymlinkError>> {
+    const link = this.symbolicLink(name);
+    if (!link.success) {
+      return err({ kind: "INVALID_NAME", errors: link.error });
+    }
+
+    try {
+      await this.fileSystem.symlink(target.fullPath, link.value.fullPath);
+      return ok(link.value);
+    } catch (error) {
+      if (error instanceof Deno.errors.AlreadyExists) {
+        return err({ kind: "ALREADY_EXISTS" });
+      } else if (error instanceof Deno.errors.PermissionDenied) {
+        return err({ kind: "PERMISSION_DENIED" });
+      } else if (error instanceof Deno.errors.NotFound) {
+        return err({ kind: "PARENT_NOT_FOUND" });
+      } else {
+        return err({
+          kind: "IO_ERROR",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  // Follows symlinks, use SymbolicLink.exists() to check the link itself
   async exists(): Promise<Result<boolean, DirectoryExistsError>> {
     try {
-      const stat = await Deno.stat(this.fullPath);
+      const stat = await this.fileSystem.stat(this.fullPath);
       if (stat.isDirectory) {
         return ok(true);
       } else {
@@ -66,7 +383,10 @@ export class Directory extends AbstractPath {
       const errorMessage = error instanceof Error
         ? error.message
         : String(error);
-      if (errorMessage.includes("Not a directory")) {
+      if (
+        error instanceof Deno.errors.NotADirectory ||
+        errorMessage.includes("Not a directory")
+      ) {
         // This means a parent in the path is a file, not a directory
         return err({ kind: "FILE_EXISTS" });
       }
@@ -77,9 +397,49 @@ export class Directory extends AbstractPath {
     }
   }
 
+  // Follows symlinks
+  async stat(): Promise<Result<PathInfo, DirectoryStatError>> {
+    const stat = await statEntry(this.fileSystem, this.fullPath, true);
+    if (!stat.success) {
+      return stat;
+    }
+    if (stat.value === undefined) {
+      return err({ kind: "NOT_FOUND", path: this.fullPath });
+    }
+    if (!stat.value.isDirectory) {
+      return err({ kind: "NOT_DIRECTORY", path: this.fullPath });
+    }
+    return ok(pathInfo(stat.value));
+  }
+
+  async chmod(mode: number | Permissions): Promise<Result<void, ChmodError>> {
+    return await chmodPath(this.fileSystem, this.fullPath, mode);
+  }
+
+  // undefined leaves the owner or group unchanged
+  async chown(
+    uid: number | undefined,
+    gid: number | undefined,
+  ): Promise<Result<void, MetadataChangeError>> {
+    return await changeMetadata(
+      this.fullPath,
+      () => this.fileSystem.chown(this.fullPath, uid ?? null, gid ?? null),
+    );
+  }
+
+  async utime(
+    atime: Date,
+    mtime: Date,
+  ): Promise<Result<void, MetadataChangeError>> {
+    return await changeMetadata(
+      this.fullPath,
+      () => this.fileSystem.utime(this.fullPath, atime, mtime),
+    );
+  }
+
   async mkdir(): Promise<Result<boolean, MkdirError>> {
     try {
-      await Deno.mkdir(this.fullPath);
+      await this.fileSystem.mkdir(this.fullPath);
       return ok(true);
     } catch (error) {
       if (error instanceof Deno.errors.AlreadyExists) {
@@ -161,121 +521,188 @@ export class Directory extends AbstractPath {
     }
   }
 
-  static build(path: string): Result<Directory, BuildDirectoryError> {
-    if (!path.startsWith("/")) {
-      return err({ kind: "NOT_ABSOLUTE_PATH", path });
+  // A symlink at this path is reported as NOT_DIRECTORY, never followed
+  async remove(
+    options: DirectoryRemoveOptions = {},
+  ): Promise<Result<void, DirectoryRemoveError>> {
+    if (this.parent === undefined) {
+      return err({ kind: "ROOT_DIRECTORY" });
     }
 
-    // Handle root directory case
-    if (path === "/") {
-      return ok(new Directory("", undefined));
+    const existing = await statEntry(this.fileSystem, this.fullPath, false);
+    if (!existing.success) {
+      return existing;
     }
-
-    // Check for trailing slash
-    if (path.endsWith("/")) {
-      return err({ kind: "INVALID_TRAILING_SLASH", path });
+    if (existing.value === undefined) {
+      return err({ kind: "NOT_FOUND", path: this.fullPath });
+    }
+    if (!existing.value.isDirectory) {
+      return err({ kind: "NOT_DIRECTORY", path: this.fullPath });
     }
 
-    const [_, ...children] = path.split("/");
-    // TODO :: I can ensure _ is ''(empty string, but How can I force that?)
-    type ReduceType = Result<Directory, BuildDirectoryPathSegmentError>;
-    const reducer = (
-      accumulator: ReduceType,
-      pathSegement: string,
-    ): ReduceType => {
-      const name = fileNameValidate(pathSegement);
-      if (!name.success) {
-        const pathSegmentError: PathSegmentError = [pathSegement, name.error];
-        if (!accumulator.success) {
-          return err({
-            kind: "INVALID_PATH_SEGMENT",
-            pathSegmentErrors: [
-              ...accumulator.error.pathSegmentErrors,
-              pathSegmentError,
-            ],
-          });
-        }
-        return err({
-          kind: "INVALID_PATH_SEGMENT",
-          pathSegmentErrors: [pathSegmentError],
-        });
-      }
-
-      if (!accumulator.success) {
-        return accumulator;
+    try {
+      await this.fileSystem.remove(this.fullPath, {
+        recursive: options.recursive ?? false,
+      });
+      return ok(undefined);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return err({ kind: "NOT_FOUND", path: this.fullPath });
+      } else if (errorCode(error) === "ENOTEMPTY") {
+        return err({ kind: "NOT_EMPTY", path: this.fullPath });
       }
-
-      return ok(new Directory(name.value, accumulator.value));
-    };
-    return children.reduce(reducer, ok(new Directory("", undefined)));
+      return err(fileSystemFailure(error, this.fullPath));
+    }
   }
-}
 
-type PathSegmentError = [string, FileNameValidateError[]];
-type BuildDirectoryPathSegmentError = {
-  kind: "INVALID_PATH_SEGMENT";
-  pathSegmentErrors: PathSegmentError[];
-};
+  // `destination` becomes the copy; with `overwrite` the tree is merged into
+  // a directory already there
+  async copyTo(
+    destination: Directory,
+    options: CopyOptions = {},
+  ): Promise<Result<Directory, DirectoryCopyError>> {
+    if (this.contains(destination)) {
+      return err({ kind: "INTO_ITSELF", path: destination.fullPath });
+    }
 
-type BuildDirectoryError =
-  | { kind: "NOT_ABSOLUTE_PATH"; path: string }
-  | { kind: "INVALID_TRAILING_SLASH"; path: string }
-  | BuildDirectoryPathSegmentError;
+    const source = await statEntry(this.fileSystem, this.fullPath, true);
+    if (!source.success) {
+      return source;
+    }
+    if (source.value === undefined) {
+      return err({ kind: "NOT_FOUND", path: this.fullPath });
+    }
+    if (!source.value.isDirectory) {
+      return err({ kind: "NOT_DIRECTORY", path: this.fullPath });
+    }
 
-type DirectoryExistsError = { kind: "FILE_EXISTS" } | {
-  kind: "IO_ERROR";
-  message: string;
-};
+    const copied = await copyTree(
+      this.fileSystem,
+      this.fullPath,
+      destination.fullPath,
+      options,
+    );
+    return copied.success ? ok(destination) : copied;
+  }
 
-type MkdirError =
-  | { kind: "FILE_EXISTS" }
-  | { kind: "PERMISSION_DENIED" }
-  | { kind: "PARENT_NOT_FOUND" }
-  | { kind: "IO_ERROR"; message: string };
+  // `destination` takes the place of this directory; with `overwrite` whatever
+  // is already there is removed first
+  async moveTo(
+    destination: Directory,
+    options: MoveOptions = {},
+  ): Promise<Result<Directory, DirectoryMoveError>> {
+    if (this.parent === undefined) {
+      return err({ kind: "ROOT_DIRECTORY" });
+    }
+    // replacing an ancestor, the root included, would remove this directory
+    if (
+      destination.parent === undefined || this.contains(destination) ||
+      destination.isAncestorOf(this)
+    ) {
+      return err({ kind: "INTO_ITSELF", path: destination.fullPath });
+    }
 
-type MkdirpError =
-  | { kind: "FILE_EXISTS" }
-  | { kind: "PERMISSION_DENIED" }
-  | { kind: "IO_ERROR"; message: string };
+    const source = await statEntry(this.fileSystem, this.fullPath, false);
+    if (!source.success) {
+      return source;
+    }
+    if (source.value === undefined) {
+      return err({ kind: "NOT_FOUND", path: this.fullPath });
+    }
+    if (!source.value.isDirectory) {
+      return err({ kind: "NOT_DIRECTORY", path: this.fullPath });
+    }
 
-export class File extends AbstractPath {
-  private constructor(name: string, readonly parent: Directory) {
-    super(name);
-  }
+    const existing = await statEntry(
+      this.fileSystem,
+      destination.fullPath,
+      false,
+    );
+    if (!existing.success) {
+      return existing;
+    }
+    if (existing.value === undefined) {
+      return this.moveOnto(destination);
+    }
+    if (!options.overwrite) {
+      return err({ kind: "DESTINATION_EXISTS", path: destination.fullPath });
+    }
 
-  readonly kind = PathType.File;
+    // The destination is moved aside rather than removed, so that it can be
+    // put back when the move fails
+    const aside = new Directory(
+      temporarySiblingName(destination.name),
+      destination.parent,
+    );
+    try {
+      await this.fileSystem.rename(destination.fullPath, aside.fullPath);
+    } catch (error) {
+      return err(fileSystemFailure(error, destination.fullPath));
+    }
 
-  get fullPath(): string {
-    const parentFullPath = this.parent.fullPath;
-    const joiner = parentFullPath.endsWith("/") ? "" : "/";
-    return parentFullPath + joiner + this.name;
+    const moved = await this.moveOnto(destination);
+    if (moved.success) {
+      const removed = await removeEntry(this.fileSystem, aside.fullPath, true);
+      return removed.success ? moved : removed;
+    }
+    try {
+      await this.fileSystem.rename(aside.fullPath, destination.fullPath);
+    } catch {
+      // left at `aside`, the move error says more
+    }
+    return moved;
   }
 
-  static build(
-    name: string,
-    parent: Directory,
-  ): Result<File, FileNameValidateError[]> {
-    const nameResult = fileNameValidate(name);
-    if (!nameResult.success) {
-      return err(nameResult.error);
+  // Moves this directory to `destination`, which does not exist
+  private async moveOnto(
+    destination: Directory,
+  ): Promise<Result<Directory, DirectoryMoveError>> {
+    try {
+      await this.fileSystem.rename(this.fullPath, destination.fullPath);
+      return ok(destination);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return err({ kind: "PARENT_NOT_FOUND", path: destination.fullPath });
+      } else if (errorCode(error) !== "EXDEV") {
+        return err(fileSystemFailure(error, this.fullPath));
+      }
     }
 
-    return ok(new File(name, parent));
+    // rename cannot cross devices
+    const copied = await copyTree(
+      this.fileSystem,
+      this.fullPath,
+      destination.fullPath,
+      { preserveTimestamps: true },
+    );
+    if (!copied.success) {
+      // a partial copy is in the way of putting the destination back
+      await removeEntry(this.fileSystem, destination.fullPath, true);
+      return copied;
+    }
+    const removed = await removeEntry(this.fileSystem, this.fullPath, true);
+    return removed.success ? ok(destination) : removed;
   }
 
-  async read(): Promise<Result<string, FileReadError>> {
+  // Lexically, `path` is this directory or below it
+  private contains(path: Path): boolean {
+    return !path.relativeTo(this).segments.includes("..");
+  }
+
+  async *list(): AsyncGenerator<Result<Path, DirectoryListError>> {
     try {
-      const content = await Deno.readTextFile(this.fullPath);
-      return ok(content);
+      for await (const entry of this.fileSystem.readDir(this.fullPath)) {
+        yield this.entryToPath(entry);
+      }
     } catch (error) {
       if (error instanceof Deno.errors.NotFound) {
-        return err({ kind: "FILE_NOT_FOUND" });
+        yield err({ kind: "NOT_FOUND", path: this.fullPath });
+      } else if (error instanceof Deno.errors.NotADirectory) {
+        yield err({ kind: "NOT_DIRECTORY", path: this.fullPath });
       } else if (error instanceof Deno.errors.PermissionDenied) {
-        return err({ kind: "PERMISSION_DENIED" });
-      } else if (error instanceof Deno.errors.IsADirectory) {
-        return err({ kind: "IS_DIRECTORY" });
+        yield err({ kind: "PERMISSION_DENIED", path: this.fullPath });
       } else {
-        return err({
+        yield err({
           kind: "IO_ERROR",
           message: error instanceof Error ? error.message : String(error),
         });
@@ -283,70 +710,2572 @@ export class File extends AbstractPath {
     }
   }
 
-  async write(text: string): Promise<Result<void, FileWriteError>> {
-    try {
-      await Deno.writeTextFile(this.fullPath, text);
-      return ok(undefined);
-    } catch (error) {
-      if (error instanceof Deno.errors.PermissionDenied) {
-        return err({ kind: "PERMISSION_DENIED" });
-      } else if (error instanceof Deno.errors.IsADirectory) {
-        return err({ kind: "IS_DIRECTORY" });
-      } else if (error instanceof Deno.errors.NotFound) {
-        return err({ kind: "PARENT_NOT_FOUND" });
-      } else {
-        return err({
-          kind: "IO_ERROR",
-          message: error instanceof Error ? error.message : String(error),
-        });
+  async *walk(
+    options: DirectoryWalkOptions = {},
+  ): AsyncGenerator<Result<Path, DirectoryWalkError>> {
+    const { maxDepth = Infinity, followSymlinks = false } = options;
+    if (maxDepth < 1) {
+      return;
+    }
+
+    let ancestors: string[] = [];
+    if (followSymlinks) {
+      // Real paths of the directories above the current one, used to detect
+      // symlinks that point back into the tree being walked
+      const realPath = await this.realPath();
+      if (!realPath.success) {
+        yield realPath;
+        return;
       }
+      ancestors = [realPath.value];
     }
+
+    yield* this.walkEntries(1, { ...options, maxDepth }, ancestors);
   }
 
-  async exists(): Promise<Result<boolean, FileExistsError>> {
-    try {
-      const stat = await Deno.stat(this.fullPath);
-      if (stat.isFile) {
-        return ok(true);
-      } else {
-        return err({ kind: "NOT_FILE" });
+  private async *walkEntries(
+    depth: number,
+    options: DirectoryWalkOptions & { maxDepth: number },
+    ancestors: string[],
+  ): AsyncGenerator<Result<Path, DirectoryWalkError>> {
+    for await (const entry of this.list()) {
+      if (!entry.success) {
+        yield entry;
+        continue;
       }
-    } catch (error) {
-      if (error instanceof Deno.errors.NotFound) {
-        return ok(false);
+
+      const path = entry.value;
+      if (options.filter?.(path) ?? true) {
+        yield ok(path);
       }
-      return err({
-        kind: "IO_ERROR",
-        message: error instanceof Error ? error.message : String(error),
-      });
-    }
-  }
-}
 
-export type FileReadError =
-  | { kind: "FILE_NOT_FOUND" }
-  | { kind: "PERMISSION_DENIED" }
-  | { kind: "IS_DIRECTORY" }
+      if (depth >= options.maxDepth) {
+        continue;
+      }
+
+      let directory: Directory;
+      if (path instanceof Directory) {
+        directory = path;
+      } else if (path instanceof SymbolicLink && options.followSymlinks) {
+        const linked = await this.linkedDirectory(path);
+        if (!linked.success) {
+          yield linked;
+          continue;
+        }
+        if (linked.value === undefined) {
+          continue;
+        }
+        directory = linked.value;
+      } else {
+        continue;
+      }
+
+      let childAncestors = ancestors;
+      if (options.followSymlinks) {
+        const realPath = await directory.realPath();
+        if (!realPath.success) {
+          yield realPath;
+          continue;
+        }
+        if (ancestors.includes(realPath.value)) {
+          yield err({ kind: "SYMLINK_LOOP", path: directory.fullPath });
+          continue;
+        }
+        childAncestors = [...ancestors, realPath.value];
+      }
+
+      yield* directory.walkEntries(depth + 1, options, childAncestors);
+    }
+  }
+
+  async *glob(
+    pattern: string,
+    options: GlobOptions = {},
+  ): AsyncGenerator<Result<Path, DirectoryGlobError>> {
+    const parsed = globParse(pattern, options);
+    if (!parsed.success) {
+      yield parsed;
+      return;
+    }
+
+    const relative = globStart(parsed.value, false);
+    const absolute = globStart(parsed.value, true);
+    // Only a pattern mixing relative and absolute alternatives can reach the
+    // same path twice
+    const seen = relative.length && absolute.length ? new Set<string>() : null;
+
+    if (relative.length) {
+      yield* this.globEntries(parsed.value, relative, seen);
+    }
+    if (absolute.length) {
+      let root = this.parent ?? this;
+      while (root.parent) {
+        root = root.parent;
+      }
+      yield* root.globEntries(parsed.value, absolute, seen);
+    }
+  }
+
+  // Starts watching right away, so changes made before the first event is
+  // awaited are not missed; stop with `close()` or by leaving the loop
+  async watch(
+    options: WatchOptions = {},
+  ): Promise<Result<DirectoryWatcher, DirectoryWatchError>> {
+    const { recursive = true, debounceMs = 50 } = options;
+    const info = await statEntry(this.fileSystem, this.fullPath, true);
+    if (!info.success) {
+      return info;
+    }
+    if (info.value === undefined) {
+      return err({ kind: "NOT_FOUND", path: this.fullPath });
+    }
+    if (!info.value.isDirectory) {
+      return err({ kind: "NOT_DIRECTORY", path: this.fullPath });
+    }
+
+    try {
+      const realPath = await this.fileSystem.realPath(this.fullPath);
+      // events may name entries through the resolved path of this directory
+      const roots = realPath === this.fullPath
+        ? [realPath]
+        : [this.fullPath, realPath];
+      // the kinds of entries seen so far, to report removed ones
+      const kinds = new Map<string, PathType>();
+      const watcher = this.fileSystem.watch(this.fullPath, { recursive });
+      return ok(
+        new DirectoryWatcher(
+          watcher,
+          debounceMs,
+          (changes) => this.watchEvents(changes, roots, kinds),
+        ),
+      );
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return err({ kind: "NOT_FOUND", path: this.fullPath });
+      }
+      return err(fileSystemFailure(error, this.fullPath));
+    }
+  }
+
+  private async *globEntries(
+    pattern: GlobPattern,
+    positions: GlobPosition[],
+    seen: Set<string> | null,
+  ): AsyncGenerator<Result<Path, DirectoryGlobError>> {
+    for await (const entry of this.list()) {
+      if (!entry.success) {
+        // Report broken entries only when the pattern could have matched them
+        const { error } = entry;
+        const name = error.kind === "INVALID_ENTRY_NAME"
+          ? error.name
+          : error.kind === "UNSUPPORTED_ENTRY"
+          ? error.path.slice(error.path.lastIndexOf("/") + 1)
+          : undefined;
+        if (name === undefined || globStep(pattern, positions, name).length) {
+          yield entry;
+        }
+        continue;
+      }
+
+      const path = entry.value;
+      const next = globStep(pattern, positions, path.name);
+      if (globMatched(pattern, next) && !seen?.has(path.fullPath)) {
+        seen?.add(path.fullPath);
+        yield ok(path);
+      }
+
+      let directory: Directory;
+      let descend: GlobPosition[];
+      if (path instanceof Directory) {
+        directory = path;
+        descend = next;
+      } else if (path instanceof SymbolicLink) {
+        // Like shell globstar, "**" does not descend through symlinks
+        descend = globStep(pattern, positions, path.name, false);
+        if (!globPending(pattern, descend)) {
+          continue;
+        }
+        const linked = await this.linkedDirectory(path);
+        if (!linked.success) {
+          yield linked;
+          continue;
+        }
+        if (linked.value === undefined) {
+          continue;
+        }
+        directory = linked.value;
+      } else {
+        continue;
+      }
+
+      if (globPending(pattern, descend)) {
+        yield* directory.globEntries(pattern, descend, seen);
+      }
+    }
+  }
+
+  private entryToPath(entry: Deno.DirEntry): Result<Path, DirectoryListError> {
+    const joiner = this.fullPath.endsWith("/") ? "" : "/";
+    const entryPath = this.fullPath + joiner + entry.name;
+
+    let path: Result<Path, FileNameValidateError[]>;
+    if (entry.isSymlink) {
+      path = this.symbolicLink(entry.name);
+    } else if (entry.isDirectory) {
+      path = this.directory(entry.name);
+    } else if (entry.isFile) {
+      path = this.file(entry.name);
+    } else {
+      return err({ kind: "UNSUPPORTED_ENTRY", path: entryPath });
+    }
+
+    if (!path.success) {
+      return err({
+        kind: "INVALID_ENTRY_NAME",
+        path: entryPath,
+        name: entry.name,
+        errors: path.error,
+      });
+    }
+
+    return path;
+  }
+
+  private async *watchEvents(
+    changes: Map<string, WatchChange>,
+    roots: string[],
+    kinds: Map<string, PathType>,
+  ): AsyncGenerator<Result<WatchEvent, WatchEventError>> {
+    for (const [fullPath, change] of changes) {
+      const info = await statEntry(this.fileSystem, fullPath, false);
+      const exists = info.success && info.value !== undefined;
+      if (info.success && info.value !== undefined) {
+        kinds.set(
+          fullPath,
+          info.value.isDirectory
+            ? PathType.Directory
+            : info.value.isSymlink
+            ? PathType.SymbolicLink
+            : PathType.File,
+        );
+      }
+      // a removed entry that was never seen is reported as a file
+      const kind = kinds.get(fullPath) ?? PathType.File;
+      if (!exists) {
+        kinds.delete(fullPath);
+      }
+
+      const path = this.watchedPath(fullPath, kind, roots);
+      if (change.kind === "renamed") {
+        const from = this.watchedPath(change.from, kind, roots);
+        kinds.delete(change.from);
+        if (from === undefined) {
+          // moved in from outside of this directory
+          if (path !== undefined) {
+            yield path.success
+              ? ok({ kind: "created", path: path.value })
+              : path;
+          }
+        } else if (path === undefined) {
+          yield from.success ? ok({ kind: "removed", path: from.value }) : from;
+        } else if (!path.success) {
+          yield path;
+        } else if (!from.success) {
+          yield from;
+        } else {
+          yield ok({ kind: "renamed", path: path.value, from: from.value });
+        }
+        continue;
+      }
+
+      if (path === undefined) {
+        continue;
+      }
+      if (!path.success) {
+        yield path;
+        continue;
+      }
+      const eventKind = change.kind === "moved"
+        ? exists ? "created" : "removed"
+        : change.kind;
+      yield ok({ kind: eventKind, path: path.value });
+    }
+  }
+
+  // The path of `fullPath` built from this directory, or undefined when it is
+  // not below any of `roots`
+  private watchedPath(
+    fullPath: string,
+    kind: PathType,
+    roots: string[],
+  ): Result<Path, WatchEventError> | undefined {
+    for (const root of roots) {
+      if (fullPath === root) {
+        return ok(this);
+      }
+      const prefix = root.endsWith("/") ? root : `${root}/`;
+      if (!fullPath.startsWith(prefix)) {
+        continue;
+      }
+
+      const names = fullPath.substring(prefix.length).split("/");
+      const name = names.pop() ?? "";
+      let parent: Directory | undefined;
+      for (const segment of names) {
+        const directory = (parent ?? this).directory(segment);
+        if (!directory.success) {
+          return err({
+            kind: "INVALID_ENTRY_NAME",
+            path: fullPath,
+            name: segment,
+            errors: directory.error,
+          });
+        }
+        parent = directory.value;
+      }
+
+      let path: Result<Path, FileNameValidateError[]>;
+      if (kind === PathType.Directory) {
+        path = (parent ?? this).directory(name);
+      } else if (kind === PathType.SymbolicLink) {
+        path = (parent ?? this).symbolicLink(name);
+      } else {
+        path = (parent ?? this).file(name);
+      }
+      if (!path.success) {
+        return err({
+          kind: "INVALID_ENTRY_NAME",
+          path: fullPath,
+          name,
+          errors: path.error,
+        });
+      }
+      return path;
+    }
+    return undefined;
+  }
+
+  // The directory a symlink in this directory points at, seen through the
+  // symlink, or undefined when it points at anything else or nothing at all
+  private async linkedDirectory(
+    link: SymbolicLink,
+  ): Promise<Result<Directory | undefined, DirectoryListError>> {
+    try {
+      const stat = await this.fileSystem.stat(link.fullPath);
+      return ok(stat.isDirectory ? new Directory(link.name, this) : undefined);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return ok(undefined);
+      }
+      return err({
+        kind: "IO_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async realPath(): Promise<Result<string, DirectoryListError>> {
+    try {
+      return ok(await this.fileSystem.realPath(this.fullPath));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return err({ kind: "NOT_FOUND", path: this.fullPath });
+      } else if (error instanceof Deno.errors.PermissionDenied) {
+        return err({ kind: "PERMISSION_DENIED", path: this.fullPath });
+      }
+      return err({
+        kind: "IO_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  static build(
+    rawPath: string,
+    options: BuildDirectoryOptions = {},
+  ): Result<Directory, BuildDirectoryError> {
+    const expanded = pathExpand(rawPath, options);
+    if (!expanded.success) {
+      return expanded;
+    }
+    if (!expanded.value.startsWith("/")) {
+      return err({ kind: "NOT_ABSOLUTE_PATH", path: expanded.value });
+    }
+
+    const normalized = options.normalize
+      ? normalizeAbsolutePath(expanded.value)
+      : ok(expanded.value);
+    if (!normalized.success) {
+      return normalized;
+    }
+    const path = normalized.value;
+
+    // Handle root directory case
+    if (path === "/") {
+      return ok(new Directory("", undefined, options.fileSystem));
+    }
+
+    // Check for trailing slash
+    if (path.endsWith("/")) {
+      return err({ kind: "INVALID_TRAILING_SLASH", path });
+    }
+
+    const [_, ...children] = path.split("/");
+    // TODO :: I can ensure _ is ''(empty string, but How can I force that?)
+    type ReduceType = Result<Directory, BuildDirectoryPathSegmentError>;
+    const reducer = (
+      accumulator: ReduceType,
+      pathSegement: string,
+    ): ReduceType => {
+      const name = fileNameValidate(pathSegement);
+      if (!name.success) {
+        const pathSegmentError: PathSegmentError = [pathSegement, name.error];
+        if (!accumulator.success) {
+          return err({
+            kind: "INVALID_PATH_SEGMENT",
+            pathSegmentErrors: [
+              ...accumulator.error.pathSegmentErrors,
+              pathSegmentError,
+            ],
+          });
+        }
+        return err({
+          kind: "INVALID_PATH_SEGMENT",
+          pathSegmentErrors: [pathSegmentError],
+        });
+      }
+
+      if (!accumulator.success) {
+        return accumulator;
+      }
+
+      return ok(new Directory(name.value, accumulator.value));
+    };
+    return children.reduce(
+      reducer,
+      ok(new Directory("", undefined, options.fileSystem)),
+    );
+  }
+
+  // The working directory of the process
+  static cwd(
+    options: WellKnownDirectoryOptions = {},
+  ): Result<Directory, WellKnownDirectoryError> {
+    let cwd: string;
+    try {
+      cwd = Deno.cwd();
+    } catch (error) {
+      // removed since, or run without --allow-read
+      return err({
+        kind: "CWD_UNAVAILABLE",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return Directory.build(cwd, { fileSystem: options.fileSystem });
+  }
+
+  // $HOME, which has to be an absolute path
+  static home(
+    options: WellKnownDirectoryOptions = {},
+  ): Result<Directory, WellKnownDirectoryError> {
+    const home = envAbsolutePath("HOME", options);
+    if (!home.success) {
+      return home;
+    }
+    return Directory.build(home.value, {
+      normalize: true,
+      fileSystem: options.fileSystem,
+    });
+  }
+
+  // $XDG_CONFIG_HOME or ~/.config, with `appName` below it when given
+  static xdgConfigHome(
+    appName?: string,
+    options: WellKnownDirectoryOptions = {},
+  ): Result<Directory, WellKnownDirectoryError> {
+    return Directory.xdg("config", appName, options);
+  }
+
+  // $XDG_DATA_HOME or ~/.local/share, with `appName` below it when given
+  static xdgDataHome(
+    appName?: string,
+    options: WellKnownDirectoryOptions = {},
+  ): Result<Directory, WellKnownDirectoryError> {
+    return Directory.xdg("data", appName, options);
+  }
+
+  // $XDG_CACHE_HOME or ~/.cache, with `appName` below it when given
+  static xdgCacheHome(
+    appName?: string,
+    options: WellKnownDirectoryOptions = {},
+  ): Result<Directory, WellKnownDirectoryError> {
+    return Directory.xdg("cache", appName, options);
+  }
+
+  // $XDG_STATE_HOME or ~/.local/state, with `appName` below it when given
+  static xdgStateHome(
+    appName?: string,
+    options: WellKnownDirectoryOptions = {},
+  ): Result<Directory, WellKnownDirectoryError> {
+    return Directory.xdg("state", appName, options);
+  }
+
+  // $XDG_RUNTIME_DIR, which has no fallback, with `appName` below it when
+  // given
+  static xdgRuntimeDir(
+    appName?: string,
+    options: WellKnownDirectoryOptions = {},
+  ): Result<Directory, WellKnownDirectoryError> {
+    return Directory.xdg("runtime", appName, options);
+  }
+
+  // Only builds the path, the directories may not exist yet
+  private static xdg(
+    base: XdgBaseDirectory,
+    appName: string | undefined,
+    options: WellKnownDirectoryOptions,
+  ): Result<Directory, WellKnownDirectoryError> {
+    const basePath = xdgBasePath(base, options);
+    if (!basePath.success) {
+      return basePath;
+    }
+    const directory = Directory.build(basePath.value, {
+      normalize: true,
+      fileSystem: options.fileSystem,
+    });
+    if (!directory.success || appName === undefined) {
+      return directory;
+    }
+    const app = directory.value.directory(appName);
+    if (!app.success) {
+      return err({
+        kind: "INVALID_APP_NAME",
+        name: appName,
+        errors: app.error,
+      });
+    }
+    return app;
+  }
+
+  // Creates a new directory in `options.parent` or the system temporary
+  // directory; `await using` removes it with its contents
+  static async temp(
+    options: TempOptions = {},
+  ): Promise<Result<TempDirectory, TempCreateError>> {
+    const created = await createTemp(
+      options,
+      (fileSystem, makeTempOptions) => fileSystem.makeTempDir(makeTempOptions),
+      (fullPath, fileSystem) => Directory.build(fullPath, { fileSystem }),
+    );
+    return created.success ? ok(new TempDirectory(created.value)) : created;
+  }
+}
+
+export type PathSegmentError = [string, FileNameValidateError[]];
+type BuildDirectoryPathSegmentError = {
+  kind: "INVALID_PATH_SEGMENT";
+  pathSegmentErrors: PathSegmentError[];
+};
+
+type BuildDirectoryError =
+  | { kind: "NOT_ABSOLUTE_PATH"; path: string }
+  | { kind: "INVALID_TRAILING_SLASH"; path: string }
+  // only with the normalize option
+  | { kind: "ABOVE_ROOT"; path: string }
+  | BuildDirectoryPathSegmentError
+  // only with the expandHome or expandEnv options
+  | EnvError;
+
+export type WellKnownDirectoryOptions = EnvOptions & {
+  // the backend of the built directory
+  fileSystem?: FileSystem;
+};
+
+export type WellKnownDirectoryError =
+  | BuildDirectoryError
+  | { kind: "CWD_UNAVAILABLE"; message: string }
+  | { kind: "INVALID_APP_NAME"; name: string; errors: FileNameValidateError[] };
+
+export type BuildDirectoryOptions = PathExpandOptions & {
+  // collapse ".", ".." and duplicate or trailing slashes before validating
+  normalize?: boolean;
+  // the backend of the built path and everything derived from it
+  fileSystem?: FileSystem;
+};
+
+// Lexical only: ".." drops the previous segment even if it is a symlink
+function normalizeAbsolutePath(
+  path: string,
+): Result<string, BuildDirectoryError> {
+  const segments: string[] = [];
+  for (const segment of path.split("/")) {
+    if (segment === "" || segment === ".") {
+      continue;
+    }
+    if (segment === "..") {
+      if (segments.pop() === undefined) {
+        return err({ kind: "ABOVE_ROOT", path });
+      }
+      continue;
+    }
+    segments.push(segment);
+  }
+  return ok("/" + segments.join("/"));
+}
+
+// Resolves every symlink in the path on disk and builds the canonical path
+async function canonicalPath(
+  fullPath: string,
+  fileSystem: FileSystem,
+): Promise<Result<Directory | File, CanonicalizeError>> {
+  let realPath: string;
+  let stat: Deno.FileInfo;
+  try {
+    realPath = await fileSystem.realPath(fullPath);
+    stat = await fileSystem.stat(realPath);
+  } catch (error) {
+    if (
+      error instanceof Deno.errors.NotFound ||
+      error instanceof Deno.errors.NotADirectory
+    ) {
+      return err({ kind: "NOT_FOUND" });
+    } else if (error instanceof Deno.errors.FilesystemLoop) {
+      return err({ kind: "LOOP_DETECTED" });
+    } else if (error instanceof Deno.errors.PermissionDenied) {
+      return err({ kind: "PERMISSION_DENIED" });
+    } else {
+      return err({
+        kind: "IO_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (stat.isDirectory) {
+    const directory = Directory.build(realPath, { fileSystem });
+    if (!directory.success) {
+      return err({
+        kind: "INVALID_PATH",
+        path: realPath,
+        error: directory.error,
+      });
+    }
+    return directory;
+  }
+
+  if (stat.isFile) {
+    const separator = realPath.lastIndexOf("/");
+    const parent = Directory.build(realPath.substring(0, separator) || "/", {
+      fileSystem,
+    });
+    if (!parent.success) {
+      return err({ kind: "INVALID_PATH", path: realPath, error: parent.error });
+    }
+
+    const name = realPath.substring(separator + 1);
+    const file = parent.value.file(name);
+    if (!file.success) {
+      return err({
+        kind: "INVALID_PATH",
+        path: realPath,
+        error: {
+          kind: "INVALID_PATH_SEGMENT",
+          pathSegmentErrors: [[name, file.error]],
+        },
+      });
+    }
+    return file;
+  }
+
+  return err({ kind: "UNSUPPORTED_ENTRY", path: realPath });
+}
+
+export type CanonicalizeError =
+  | { kind: "NOT_FOUND" }
+  | { kind: "LOOP_DETECTED" }
+  | { kind: "PERMISSION_DENIED" }
+  | { kind: "INVALID_PATH"; path: string; error: BuildDirectoryError }
+  // neither a file nor a directory (socket, fifo, device)
+  | { kind: "UNSUPPORTED_ENTRY"; path: string }
   | { kind: "IO_ERROR"; message: string };
 
-export type FileWriteError =
+export type DirectoryCanonicalizeError =
+  | CanonicalizeError
+  | { kind: "NOT_DIRECTORY"; path: string };
+
+export type FileCanonicalizeError =
+  | CanonicalizeError
+  | { kind: "NOT_FILE"; path: string };
+
+type DirectoryExistsError = { kind: "FILE_EXISTS" } | {
+  kind: "IO_ERROR";
+  message: string;
+};
+
+type MkdirError =
+  | { kind: "FILE_EXISTS" }
   | { kind: "PERMISSION_DENIED" }
-  | { kind: "IS_DIRECTORY" }
   | { kind: "PARENT_NOT_FOUND" }
   | { kind: "IO_ERROR"; message: string };
 
-export type FileExistsError =
-  | { kind: "NOT_FILE" }
+type MkdirpError =
+  | { kind: "FILE_EXISTS" }
+  | { kind: "PERMISSION_DENIED" }
+  | { kind: "IO_ERROR"; message: string };
+
+export type DirectoryListError =
+  | { kind: "NOT_FOUND"; path: string }
+  | { kind: "NOT_DIRECTORY"; path: string }
+  | { kind: "PERMISSION_DENIED"; path: string }
+  | {
+    kind: "INVALID_ENTRY_NAME";
+    path: string;
+    name: string;
+    errors: FileNameValidateError[];
+  }
+  // not a file, directory or symlink (socket, fifo, device)
+  | { kind: "UNSUPPORTED_ENTRY"; path: string }
   | { kind: "IO_ERROR"; message: string };
 
-export type Path = Directory | File;
+export type DirectoryWalkError =
+  | DirectoryListError
+  | { kind: "SYMLINK_LOOP"; path: string };
+
+export type DirectoryGlobError = GlobSyntaxError | DirectoryListError;
+
+export type DirectoryWatchError =
+  | { kind: "NOT_FOUND"; path: string }
+  | { kind: "NOT_DIRECTORY"; path: string }
+  | FileSystemFailure;
+
+export type DirectoryStatError =
+  | { kind: "NOT_FOUND"; path: string }
+  | { kind: "NOT_DIRECTORY"; path: string }
+  | FileSystemFailure;
+
+export type DirectoryRemoveOptions = {
+  // remove the contents too instead of failing on a non-empty directory
+  recursive?: boolean;
+};
+
+export type DirectoryRemoveError =
+  | { kind: "ROOT_DIRECTORY" }
+  | { kind: "NOT_FOUND"; path: string }
+  | { kind: "NOT_DIRECTORY"; path: string }
+  | { kind: "NOT_EMPTY"; path: string }
+  | FileSystemFailure;
+
+export type DirectoryCopyError =
+  // the destination is the source or inside it
+  | { kind: "INTO_ITSELF"; path: string }
+  | { kind: "NOT_DIRECTORY"; path: string }
+  | CopyTreeError;
+
+export type DirectoryMoveError =
+  | { kind: "ROOT_DIRECTORY" }
+  | DirectoryCopyError;
+
+export type DirectoryWalkOptions = {
+  // depth 1 is the direct children of the walked directory
+  maxDepth?: number;
+  // descend into symlinks that point at directories, through the symlink
+  followSymlinks?: boolean;
+  // entries rejected by the filter are not yielded, but are still descended into
+  filter?: (path: Path) => boolean;
+};
+
+export class File extends AbstractPath {
+  // Takes the name as validated, for building many files cheaply
+  constructor(override readonly name: FileName, readonly parent: Directory) {
+    super(name);
+  }
+
+  readonly kind = PathType.File;
+
+  get fileSystem(): FileSystem {
+    return this.parent.fileSystem;
+  }
+
+  get fullPath(): string {
+    const parentFullPath = this.parent.fullPath;
+    const joiner = parentFullPath.endsWith("/") ? "" : "/";
+    return parentFullPath + joiner + this.name;
+  }
+
+  withName(name: string): Result<File, NameChangeError> {
+    const validatedName = fileNameValidate(name);
+    if (!validatedName.success) {
+      return err({ kind: "INVALID_NAME", name, errors: validatedName.error });
+    }
+
+    return ok(new File(validatedName.value, this.parent));
+  }
+
+  withStem(stem: string): Result<File, NameChangeError> {
+    return this.withName(stem + this.suffix);
+  }
+
+  withSuffix(suffix: string): Result<File, NameChangeError> {
+    const name = replaceSuffix(this.name, suffix);
+    if (!name.success) {
+      return name;
+    }
+    return this.withName(name.value);
+  }
+
+  relativeTo(base: Directory): RelativePath {
+    return RelativePath.between(base, this);
+  }
+
+  async canonicalize(): Promise<Result<File, FileCanonicalizeError>> {
+    const canonical = await canonicalPath(this.fullPath, this.fileSystem);
+    if (!canonical.success) {
+      return canonical;
+    }
+    if (!(canonical.value instanceof File)) {
+      return err({ kind: "NOT_FILE", path: canonical.value.fullPath });
+    }
+    return ok(canonical.value);
+  }
+
+  static build(
+    name: string,
+    parent: Directory,
+  ): Result<File, FileNameValidateError[]> {
+    const nameResult = fileNameValidate(name);
+    if (!nameResult.success) {
+      return err(nameResult.error);
+    }
+
+    return ok(new File(nameResult.value, parent));
+  }
+
+  static parse(
+    fullPath: string,
+    options: BuildDirectoryOptions = {},
+  ): Result<File, ParseFileError> {
+    const split = splitFullPath(fullPath, options);
+    if (!split.success) {
+      return split;
+    }
+
+    const { parent, name } = split.value;
+    return ok(new File(name, parent));
+  }
+
+  // Creates a new empty file in `options.parent` or the system temporary
+  // directory; `await using` removes it
+  static async temp(
+    options: TempOptions = {},
+  ): Promise<Result<TempFile, TempCreateError>> {
+    const created = await createTemp(
+      options,
+      (fileSystem, makeTempOptions) => fileSystem.makeTempFile(makeTempOptions),
+      (fullPath, fileSystem) => File.parse(fullPath, { fileSystem }),
+    );
+    return created.success ? ok(new TempFile(created.value)) : created;
+  }
+
+  // Waits for other holders up to `timeoutMs`; held on a `<name>.flock` or
+  // `<name>.lock` file next to this one, and `await using` releases it
+  lock(options: LockOptions = {}): Promise<Result<FileLock, FileLockError>> {
+    return fileLockAcquire(this, options);
+  }
+
+  // Runs `fn` while holding the lock, which is released even when `fn` throws;
+  // errors releasing it are dropped
+  async withLock<T>(
+    fn: () => T | Promise<T>,
+    options: LockOptions = {},
+  ): Promise<Result<T, FileLockError>> {
+    const lock = await this.lock(options);
+    if (!lock.success) {
+      return lock;
+    }
+    try {
+      return ok(await fn());
+    } finally {
+      await lock.value.release();
+    }
+  }
+
+  async read(): Promise<Result<string, FileReadError>> {
+    try {
+      const content = await this.fileSystem.readTextFile(this.fullPath);
+      return ok(content);
+    } catch (error) {
+      return err(fileReadError(error));
+    }
+  }
+
+  async write(text: string): Promise<Result<void, FileWriteError>> {
+    try {
+      await this.fileSystem.writeTextFile(this.fullPath, text);
+      return ok(undefined);
+    } catch (error) {
+      return err(fileWriteError(error));
+    }
+  }
+
+  readJson(): Promise<Result<unknown, FileReadJsonError>>;
+  readJson<T, E>(
+    validate: (value: unknown) => Result<T, E>,
+  ): Promise<Result<T, FileReadJsonError<E>>>;
+  async readJson<T, E>(
+    validate?: (value: unknown) => Result<T, E>,
+  ): Promise<Result<unknown, FileReadJsonError<E>>> {
+    const text = await this.read();
+    if (!text.success) {
+      return text;
+    }
+
+    const parsed = jsonParse(text.value);
+    if (!parsed.success || validate === undefined) {
+      return parsed;
+    }
+
+    const validated = validate(parsed.value);
+    if (!validated.success) {
+      return err({ kind: "VALIDATION_ERROR", error: validated.error });
+    }
+    return validated;
+  }
+
+  // Ends the text with a newline; `indent` defaults to two spaces
+  async writeJson(
+    value: unknown,
+    options: WriteJsonOptions = {},
+  ): Promise<Result<void, FileWriteJsonError>> {
+    let text: string | undefined;
+    try {
+      text = JSON.stringify(value, null, options.indent ?? 2);
+    } catch (error) {
+      // cycles and bigints
+      return err({
+        kind: "STRINGIFY_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    if (text === undefined) {
+      return err({
+        kind: "STRINGIFY_ERROR",
+        message: `A ${typeof value} value cannot be written as JSON`,
+      });
+    }
+
+    return options.atomic
+      ? await this.writeAtomic(text + "\n")
+      : await this.write(text + "\n");
+  }
+
+  async readBytes(): Promise<Result<Uint8Array, FileReadError>> {
+    try {
+      return ok(await this.fileSystem.readFile(this.fullPath));
+    } catch (error) {
+      return err(fileReadError(error));
+    }
+  }
+
+  async writeBytes(data: Uint8Array): Promise<Result<void, FileWriteError>> {
+    try {
+      await this.fileSystem.writeFile(this.fullPath, data);
+      return ok(undefined);
+    } catch (error) {
+      return err(fileWriteError(error));
+    }
+  }
+
+  // Writes a temporary sibling and renames it over this path, so readers see
+  // either the old or the new content. A symlink here is replaced, not
+  // followed. Without `mode` the permissions of the replaced file are kept
+  async writeAtomic(
+    data: string | Uint8Array,
+    options: WriteAtomicOptions = {},
+  ): Promise<Result<void, FileWriteAtomicError>> {
+    const fileSystem = this.fileSystem;
+    const bytes = typeof data === "string"
+      ? new TextEncoder().encode(data)
+      : data;
+
+    let mode = options.mode;
+    if (mode === undefined) {
+      const existing = await statEntry(fileSystem, this.fullPath, false);
+      mode = existing.success && existing.value?.isFile
+        ? existing.value.mode ?? undefined
+        : undefined;
+    }
+
+    const temporary = this.temporarySibling();
+    try {
+      await fileSystem.writeFile(temporary.fullPath, bytes, {
+        createNew: true,
+        mode,
+      });
+    } catch (error) {
+      // it may have been created before the write failed, unless it was
+      // someone else's
+      if (!(error instanceof Deno.errors.AlreadyExists)) {
+        await removeEntry(fileSystem, temporary.fullPath, false);
+      }
+      return err(fileWriteError(error));
+    }
+
+    const written = await writeAtomicSteps(temporary, this, {
+      fsync: options.fsync ?? true,
+      mode,
+    });
+    if (!written.success) {
+      await removeEntry(fileSystem, temporary.fullPath, false);
+    }
+    return written;
+  }
+
+  // A hidden name next to this file, unlikely to be taken
+  private temporarySibling(): File {
+    return new File(temporarySiblingName(this.name), this.parent);
+  }
+
+  // Creates the file unless `create` is false
+  async append(
+    text: string,
+    options: FileAppendOptions = {},
+  ): Promise<Result<void, FileAppendError>> {
+    const create = options.create ?? true;
+    try {
+      await this.fileSystem.appendFile(
+        this.fullPath,
+        new TextEncoder().encode(text),
+        { create },
+      );
+      return ok(undefined);
+    } catch (error) {
+      if (!create && error instanceof Deno.errors.NotFound) {
+        return err({ kind: "FILE_NOT_FOUND" });
+      }
+      return err(fileWriteError(error));
+    }
+  }
+
+  // Streams the file line by line without loading it whole. Lines end with
+  // "\n" or "\r\n", which is dropped unless `keepEnds` is set, and a trailing
+  // newline does not start another line
+  async *lines(
+    options: FileLinesOptions = {},
+  ): AsyncGenerator<Result<string, FileReadError>> {
+    const readable = await this.readable();
+    if (!readable.success) {
+      yield readable;
+      return;
+    }
+
+    const decoded = readable.value.pipeThrough(new TextDecoderStream());
+    let buffer = "";
+    try {
+      for await (const chunk of decoded) {
+        buffer += chunk;
+        let start = 0;
+        for (;;) {
+          const end = buffer.indexOf("\n", start);
+          if (end === -1) {
+            break;
+          }
+          const line = buffer.substring(start, end + 1);
+          yield ok(options.keepEnds ? line : line.replace(/\r?\n$/u, ""));
+          start = end + 1;
+        }
+        buffer = buffer.substring(start);
+      }
+    } catch (error) {
+      yield err(fileReadError(error));
+      return;
+    }
+
+    if (buffer.length) {
+      yield ok(buffer);
+    }
+  }
+
+  // Only opening the file can fail here, later failures error the stream
+  async readable(): Promise<
+    Result<ReadableStream<Uint8Array>, FileReadError>
+  > {
+    try {
+      return ok(await this.fileSystem.openReadable(this.fullPath));
+    } catch (error) {
+      return err(fileReadError(error));
+    }
+  }
+
+  // Creates or truncates the file; the file is closed when the stream is
+  async writable(): Promise<
+    Result<WritableStream<Uint8Array>, FileWriteError>
+  > {
+    try {
+      return ok(await this.fileSystem.openWritable(this.fullPath));
+    } catch (error) {
+      return err(fileWriteError(error));
+    }
+  }
+
+  // Follows symlinks, use SymbolicLink.exists() to check the link itself
+  async exists(): Promise<Result<boolean, FileExistsError>> {
+    try {
+      const stat = await this.fileSystem.stat(this.fullPath);
+      if (stat.isFile) {
+        return ok(true);
+      } else {
+        return err({ kind: "NOT_FILE" });
+      }
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return ok(false);
+      }
+      return err({
+        kind: "IO_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Follows symlinks
+  async stat(): Promise<Result<PathInfo, FileStatError>> {
+    const stat = await statEntry(this.fileSystem, this.fullPath, true);
+    if (!stat.success) {
+      return stat;
+    }
+    if (stat.value === undefined) {
+      return err({ kind: "NOT_FOUND", path: this.fullPath });
+    }
+    if (!stat.value.isFile) {
+      return err({ kind: "NOT_FILE", path: this.fullPath });
+    }
+    return ok(pathInfo(stat.value));
+  }
+
+  async chmod(mode: number | Permissions): Promise<Result<void, ChmodError>> {
+    return await chmodPath(this.fileSystem, this.fullPath, mode);
+  }
+
+  // undefined leaves the owner or group unchanged
+  async chown(
+    uid: number | undefined,
+    gid: number | undefined,
+  ): Promise<Result<void, MetadataChangeError>> {
+    return await changeMetadata(
+      this.fullPath,
+      () => this.fileSystem.chown(this.fullPath, uid ?? null, gid ?? null),
+    );
+  }
+
+  async utime(
+    atime: Date,
+    mtime: Date,
+  ): Promise<Result<void, MetadataChangeError>> {
+    return await changeMetadata(
+      this.fullPath,
+      () => this.fileSystem.utime(this.fullPath, atime, mtime),
+    );
+  }
+
+  // Copies the content, following a symlink at this path. A directory
+  // destination receives a file of the same name
+  async copyTo(
+    destination: Directory | File,
+    options: CopyOptions = {},
+  ): Promise<Result<File, FileCopyError>> {
+    const target = destination instanceof Directory
+      ? new File(this.name, destination)
+      : destination;
+    if (target.fullPath === this.fullPath) {
+      return err({ kind: "SAME_FILE", path: this.fullPath });
+    }
+
+    const source = await statEntry(this.fileSystem, this.fullPath, true);
+    if (!source.success) {
+      return source;
+    }
+    if (source.value === undefined) {
+      return err({ kind: "NOT_FOUND", path: this.fullPath });
+    }
+    if (!source.value.isFile) {
+      return err({ kind: "NOT_FILE", path: this.fullPath });
+    }
+
+    const cleared = await clearDestination(
+      this.fileSystem,
+      target.fullPath,
+      options.overwrite ?? false,
+    );
+    if (!cleared.success) {
+      return cleared;
+    }
+
+    const copied = await copyFileContent(
+      this.fileSystem,
+      this.fullPath,
+      target.fullPath,
+      options.preserveTimestamps ?? false,
+    );
+    return copied.success ? ok(target) : copied;
+  }
+
+  // Renames when possible and copies then removes across devices. A
+  // directory destination receives a file of the same name
+  async moveTo(
+    destination: Directory | File,
+    options: MoveOptions = {},
+  ): Promise<Result<File, FileMoveError>> {
+    const target = destination instanceof Directory
+      ? new File(this.name, destination)
+      : destination;
+
+    const source = await statEntry(this.fileSystem, this.fullPath, false);
+    if (!source.success) {
+      return source;
+    }
+    if (source.value === undefined) {
+      return err({ kind: "NOT_FOUND", path: this.fullPath });
+    }
+    if (!source.value.isFile) {
+      return err({ kind: "NOT_FILE", path: this.fullPath });
+    }
+    if (target.fullPath === this.fullPath) {
+      return ok(target);
+    }
+
+    const existing = await statEntry(this.fileSystem, target.fullPath, false);
+    if (!existing.success) {
+      return existing;
+    }
+    if (
+      existing.value !== undefined &&
+      (!options.overwrite || existing.value.isDirectory)
+    ) {
+      return err({ kind: "DESTINATION_EXISTS", path: target.fullPath });
+    }
+
+    try {
+      // replaces an existing file atomically
+      await this.fileSystem.rename(this.fullPath, target.fullPath);
+      return ok(target);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return err({ kind: "PARENT_NOT_FOUND", path: target.fullPath });
+      } else if (errorCode(error) !== "EXDEV") {
+        return err(fileSystemFailure(error, this.fullPath));
+      }
+    }
+
+    // rename cannot cross devices
+    const cleared = await clearDestination(
+      this.fileSystem,
+      target.fullPath,
+      options.overwrite ?? false,
+    );
+    if (!cleared.success) {
+      return cleared;
+    }
+    const copied = await copyFileContent(
+      this.fileSystem,
+      this.fullPath,
+      target.fullPath,
+      true,
+    );
+    if (!copied.success) {
+      return copied;
+    }
+    const removed = await removeEntry(this.fileSystem, this.fullPath, false);
+    return removed.success ? ok(target) : removed;
+  }
+
+  // Removes a symlink at this path, not its target
+  async remove(): Promise<Result<void, FileRemoveError>> {
+    const existing = await statEntry(this.fileSystem, this.fullPath, false);
+    if (!existing.success) {
+      return existing;
+    }
+    if (existing.value === undefined) {
+      return err({ kind: "NOT_FOUND", path: this.fullPath });
+    }
+    if (existing.value.isDirectory) {
+      return err({ kind: "NOT_FILE", path: this.fullPath });
+    }
+    return await removeEntry(this.fileSystem, this.fullPath, false);
+  }
+}
+
+export type CopyOptions = {
+  // replace existing files and merge into existing directories
+  overwrite?: boolean;
+  // give every copy the access and modification times of its source
+  preserveTimestamps?: boolean;
+};
+
+export type MoveOptions = {
+  // replace whatever is at the destination
+  overwrite?: boolean;
+};
+
+// Failures any filesystem call can end with
+type FileSystemFailure =
+  | { kind: "PERMISSION_DENIED"; path: string }
+  | { kind: "IO_ERROR"; message: string };
+
+type CopyTreeError =
+  | { kind: "NOT_FOUND"; path: string }
+  | { kind: "DESTINATION_EXISTS"; path: string }
+  | { kind: "PARENT_NOT_FOUND"; path: string }
+  // neither a file, a directory nor a symlink (socket, fifo, device)
+  | { kind: "UNSUPPORTED_ENTRY"; path: string }
+  | FileSystemFailure;
+
+export type FileStatError =
+  | { kind: "NOT_FOUND"; path: string }
+  | { kind: "NOT_FILE"; path: string }
+  | FileSystemFailure;
+
+export type MetadataChangeError =
+  | { kind: "NOT_FOUND"; path: string }
+  // chown is not available on Windows
+  | { kind: "NOT_SUPPORTED"; path: string }
+  | FileSystemFailure;
+
+export type ChmodError =
+  // not an integer between 0 and 0o7777
+  | { kind: "INVALID_MODE"; mode: number }
+  | MetadataChangeError;
+
+export type FileCopyError =
+  | { kind: "SAME_FILE"; path: string }
+  | { kind: "NOT_FILE"; path: string }
+  | CopyTreeError;
+
+export type FileMoveError =
+  | { kind: "NOT_FILE"; path: string }
+  | CopyTreeError;
+
+export type FileRemoveError =
+  | { kind: "NOT_FOUND"; path: string }
+  | { kind: "NOT_FILE"; path: string }
+  | FileSystemFailure;
+
+function fileSystemFailure(error: unknown, path: string): FileSystemFailure {
+  if (error instanceof Deno.errors.PermissionDenied) {
+    return { kind: "PERMISSION_DENIED", path };
+  }
+  return {
+    kind: "IO_ERROR",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+// Makes the entry with `create` and builds its path, removing the entry again
+// when the path cannot be built
+async function createTemp<T>(
+  options: TempOptions,
+  create: (
+    fileSystem: FileSystem,
+    options: Deno.MakeTempOptions,
+  ) => Promise<string>,
+  build: (
+    fullPath: string,
+    fileSystem: FileSystem,
+  ) => Result<T, ParseFileError>,
+): Promise<Result<T, TempCreateError>> {
+  const prefix = options.prefix ?? "";
+  const suffix = options.suffix ?? "";
+  // stands in for the random part, so an empty prefix and suffix are fine
+  const name = fileNameValidate(`${prefix}x${suffix}`);
+  if (!name.success) {
+    return err({ kind: "INVALID_NAME", errors: name.error });
+  }
+
+  const fileSystem = options.parent?.fileSystem ?? denoFileSystem;
+  let fullPath: string;
+  try {
+    fullPath = await create(fileSystem, {
+      dir: options.parent?.fullPath,
+      prefix,
+      suffix,
+    });
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return err({ kind: "PARENT_NOT_FOUND" });
+    } else if (error instanceof Deno.errors.PermissionDenied) {
+      return err({ kind: "PERMISSION_DENIED" });
+    }
+    return err({
+      kind: "IO_ERROR",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const built = build(fullPath, fileSystem);
+  if (!built.success) {
+    await removeEntry(fileSystem, fullPath, true);
+    return err({ kind: "INVALID_PATH", path: fullPath, error: built.error });
+  }
+  return built;
+}
+
+// The code the OS error was reported with, like "EXDEV" or "ENOTEMPTY"
+function errorCode(error: unknown): string | undefined {
+  if (error instanceof Error && "code" in error) {
+    return typeof error.code === "string" ? error.code : undefined;
+  }
+  return undefined;
+}
+
+// What is at `fullPath`, or undefined when there is nothing
+async function statEntry(
+  fileSystem: FileSystem,
+  fullPath: string,
+  followSymlinks: boolean,
+): Promise<Result<Deno.FileInfo | undefined, FileSystemFailure>> {
+  try {
+    return ok(
+      followSymlinks
+        ? await fileSystem.stat(fullPath)
+        : await fileSystem.lstat(fullPath),
+    );
+  } catch (error) {
+    if (
+      error instanceof Deno.errors.NotFound ||
+      error instanceof Deno.errors.NotADirectory
+    ) {
+      return ok(undefined);
+    }
+    return err(fileSystemFailure(error, fullPath));
+  }
+}
+
+async function removeEntry(
+  fileSystem: FileSystem,
+  fullPath: string,
+  recursive: boolean,
+): Promise<
+  Result<void, { kind: "NOT_FOUND"; path: string } | FileSystemFailure>
+> {
+  try {
+    await fileSystem.remove(fullPath, { recursive });
+    return ok(undefined);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return err({ kind: "NOT_FOUND", path: fullPath });
+    }
+    return err(fileSystemFailure(error, fullPath));
+  }
+}
+
+// Makes room for a copy at `fullPath`. With `overwrite` anything but a
+// directory is removed, so a copy never writes through a symlink left there
+async function clearDestination(
+  fileSystem: FileSystem,
+  fullPath: string,
+  overwrite: boolean,
+): Promise<Result<void, CopyTreeError>> {
+  const existing = await statEntry(fileSystem, fullPath, false);
+  if (!existing.success) {
+    return existing;
+  }
+  if (existing.value === undefined) {
+    return ok(undefined);
+  }
+  if (!overwrite || existing.value.isDirectory) {
+    return err({ kind: "DESTINATION_EXISTS", path: fullPath });
+  }
+  return await removeEntry(fileSystem, fullPath, false);
+}
+
+async function copyTimestamps(
+  fileSystem: FileSystem,
+  from: string,
+  to: string,
+): Promise<Result<void, FileSystemFailure>> {
+  try {
+    const source = await fileSystem.stat(from);
+    const now = new Date();
+    await fileSystem.utime(to, source.atime ?? now, source.mtime ?? now);
+    return ok(undefined);
+  } catch (error) {
+    return err(fileSystemFailure(error, to));
+  }
+}
+
+async function copyFileContent(
+  fileSystem: FileSystem,
+  from: string,
+  to: string,
+  preserveTimestamps: boolean,
+): Promise<Result<void, CopyTreeError>> {
+  try {
+    await fileSystem.copyFile(from, to);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return err({ kind: "PARENT_NOT_FOUND", path: to });
+    }
+    return err(fileSystemFailure(error, to));
+  }
+  return preserveTimestamps
+    ? await copyTimestamps(fileSystem, from, to)
+    : ok(undefined);
+}
+
+// Copies the directory `from` to `to` entry by entry, recreating symlinks
+// with their original target instead of following them
+async function copyTree(
+  fileSystem: FileSystem,
+  from: string,
+  to: string,
+  options: CopyOptions,
+): Promise<Result<void, CopyTreeError>> {
+  try {
+    await fileSystem.mkdir(to);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return err({ kind: "PARENT_NOT_FOUND", path: to });
+    } else if (!(error instanceof Deno.errors.AlreadyExists)) {
+      return err(fileSystemFailure(error, to));
+    }
+    const existing = await statEntry(fileSystem, to, false);
+    if (!existing.success) {
+      return existing;
+    }
+    if (!options.overwrite || !existing.value?.isDirectory) {
+      return err({ kind: "DESTINATION_EXISTS", path: to });
+    }
+  }
+
+  try {
+    for await (const entry of fileSystem.readDir(from)) {
+      const copied = await copyTreeEntry(
+        fileSystem,
+        entry,
+        joinPath(from, entry.name),
+        joinPath(to, entry.name),
+        options,
+      );
+      if (!copied.success) {
+        return copied;
+      }
+    }
+  } catch (error) {
+    return err(fileSystemFailure(error, from));
+  }
+
+  return options.preserveTimestamps
+    ? await copyTimestamps(fileSystem, from, to)
+    : ok(undefined);
+}
+
+async function copyTreeEntry(
+  fileSystem: FileSystem,
+  entry: Deno.DirEntry,
+  from: string,
+  to: string,
+  options: CopyOptions,
+): Promise<Result<void, CopyTreeError>> {
+  if (entry.isDirectory) {
+    return await copyTree(fileSystem, from, to, options);
+  }
+  if (!entry.isFile && !entry.isSymlink) {
+    return err({ kind: "UNSUPPORTED_ENTRY", path: from });
+  }
+
+  const cleared = await clearDestination(
+    fileSystem,
+    to,
+    options.overwrite ?? false,
+  );
+  if (!cleared.success) {
+    return cleared;
+  }
+
+  if (entry.isFile) {
+    return await copyFileContent(
+      fileSystem,
+      from,
+      to,
+      options.preserveTimestamps ?? false,
+    );
+  }
+
+  try {
+    await fileSystem.symlink(await fileSystem.readLink(from), to);
+    return ok(undefined);
+  } catch (error) {
+    return err(fileSystemFailure(error, to));
+  }
+}
+
+async function changeMetadata(
+  fullPath: string,
+  change: () => Promise<void>,
+): Promise<Result<void, MetadataChangeError>> {
+  try {
+    await change();
+    return ok(undefined);
+  } catch (error) {
+    if (
+      error instanceof Deno.errors.NotFound ||
+      error instanceof Deno.errors.NotADirectory
+    ) {
+      return err({ kind: "NOT_FOUND", path: fullPath });
+    } else if (error instanceof Deno.errors.NotSupported) {
+      return err({ kind: "NOT_SUPPORTED", path: fullPath });
+    }
+    return err(fileSystemFailure(error, fullPath));
+  }
+}
+
+async function chmodPath(
+  fileSystem: FileSystem,
+  fullPath: string,
+  mode: number | Permissions,
+): Promise<Result<void, ChmodError>> {
+  const bits = typeof mode === "number" ? mode : permissionsToMode(mode);
+  if (!Number.isInteger(bits) || bits < 0 || bits > 0o7777) {
+    return err({ kind: "INVALID_MODE", mode: bits });
+  }
+  return await changeMetadata(
+    fullPath,
+    () => fileSystem.chmod(fullPath, bits),
+  );
+}
+
+function joinPath(parent: string, name: string): string {
+  return parent.endsWith("/") ? parent + name : `${parent}/${name}`;
+}
+
+function fileReadError(error: unknown): FileReadError {
+  if (error instanceof Deno.errors.NotFound) {
+    return { kind: "FILE_NOT_FOUND" };
+  } else if (error instanceof Deno.errors.PermissionDenied) {
+    return { kind: "PERMISSION_DENIED" };
+  } else if (error instanceof Deno.errors.IsADirectory) {
+    return { kind: "IS_DIRECTORY" };
+  } else {
+    return {
+      kind: "IO_ERROR",
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// The steps after the temporary file is written: fix its permissions, flush
+// it, rename it over `file` and flush the directory entry
+async function writeAtomicSteps(
+  temporary: File,
+  file: File,
+  options: { fsync: boolean; mode: number | undefined },
+): Promise<Result<void, FileWriteAtomicError>> {
+  const fileSystem = file.fileSystem;
+  const message = (error: unknown) =>
+    error instanceof Error ? error.message : String(error);
+
+  if (options.mode !== undefined) {
+    try {
+      // the mode given on creation is masked by the umask
+      await fileSystem.chmod(temporary.fullPath, options.mode & 0o7777);
+    } catch (error) {
+      return err(fileWriteError(error));
+    }
+  }
+
+  if (options.fsync) {
+    try {
+      await fileSystem.sync(temporary.fullPath);
+    } catch (error) {
+      return err({ kind: "SYNC_FAILED", message: message(error) });
+    }
+  }
+
+  try {
+    await fileSystem.rename(temporary.fullPath, file.fullPath);
+  } catch (error) {
+    if (error instanceof Deno.errors.IsADirectory) {
+      return err({ kind: "IS_DIRECTORY" });
+    }
+    return err({ kind: "RENAME_FAILED", message: message(error) });
+  }
+
+  if (options.fsync) {
+    try {
+      await fileSystem.sync(file.parent.fullPath);
+    } catch (error) {
+      return err({ kind: "SYNC_FAILED", message: message(error) });
+    }
+  }
+  return ok(undefined);
+}
+
+function fileWriteError(error: unknown): FileWriteError {
+  if (error instanceof Deno.errors.PermissionDenied) {
+    return { kind: "PERMISSION_DENIED" };
+  } else if (error instanceof Deno.errors.IsADirectory) {
+    return { kind: "IS_DIRECTORY" };
+  } else if (error instanceof Deno.errors.NotFound) {
+    return { kind: "PARENT_NOT_FOUND" };
+  } else {
+    return {
+      kind: "IO_ERROR",
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export type FileReadError =
+  | { kind: "FILE_NOT_FOUND" }
+  | { kind: "PERMISSION_DENIED" }
+  | { kind: "IS_DIRECTORY" }
+  | { kind: "IO_ERROR"; message: string };
+
+export type FileWriteError =
+  | { kind: "PERMISSION_DENIED" }
+  | { kind: "IS_DIRECTORY" }
+  | { kind: "PARENT_NOT_FOUND" }
+  | { kind: "IO_ERROR"; message: string };
+
+export type FileReadJsonError<E = never> =
+  | FileReadError
+  | JsonParseError
+  // the validator passed to readJson() rejected the value
+  | { kind: "VALIDATION_ERROR"; error: E };
+
+export type WriteJsonOptions = {
+  indent?: number | string;
+  // write with writeAtomic()
+  atomic?: boolean;
+};
+
+export type FileWriteJsonError =
+  | FileWriteAtomicError
+  | { kind: "STRINGIFY_ERROR"; message: string };
+
+export type FileAppendOptions = {
+  // create a missing file, true by default
+  create?: boolean;
+};
+
+export type FileAppendError =
+  | FileWriteError
+  // only without `create`
+  | { kind: "FILE_NOT_FOUND" };
+
+export type FileLinesOptions = {
+  // keep the "\n" or "\r\n" ending of every line
+  keepEnds?: boolean;
+};
+
+export type WriteAtomicOptions = {
+  // flush the file and its directory to disk, true by default
+  fsync?: boolean;
+  // permission bits of the written file
+  mode?: number;
+};
+
+export type FileWriteAtomicError =
+  | FileWriteError
+  // flushing to disk failed, the target may still have its old content
+  | { kind: "SYNC_FAILED"; message: string }
+  | { kind: "RENAME_FAILED"; message: string };
+
+export type FileExistsError =
+  | { kind: "NOT_FILE" }
+  | { kind: "IO_ERROR"; message: string };
+
+export class SymbolicLink extends AbstractPath {
+  // Takes the name as validated
+  constructor(override readonly name: FileName, readonly parent: Directory) {
+    super(name);
+  }
+
+  readonly kind = PathType.SymbolicLink;
+
+  get fileSystem(): FileSystem {
+    return this.parent.fileSystem;
+  }
+
+  get fullPath(): string {
+    const parentFullPath = this.parent.fullPath;
+    const joiner = parentFullPath.endsWith("/") ? "" : "/";
+    return parentFullPath + joiner + this.name;
+  }
+
+  withName(name: string): Result<SymbolicLink, NameChangeError> {
+    const validatedName = fileNameValidate(name);
+    if (!validatedName.success) {
+      return err({ kind: "INVALID_NAME", name, errors: validatedName.error });
+    }
+
+    return ok(new SymbolicLink(validatedName.value, this.parent));
+  }
+
+  withStem(stem: string): Result<SymbolicLink, NameChangeError> {
+    return this.withName(stem + this.suffix);
+  }
+
+  withSuffix(suffix: string): Result<SymbolicLink, NameChangeError> {
+    const name = replaceSuffix(this.name, suffix);
+    if (!name.success) {
+      return name;
+    }
+    return this.withName(name.value);
+  }
+
+  relativeTo(base: Directory): RelativePath {
+    return RelativePath.between(base, this);
+  }
+
+  static build(
+    name: string,
+    parent: Directory,
+  ): Result<SymbolicLink, FileNameValidateError[]> {
+    const nameResult = fileNameValidate(name);
+    if (!nameResult.success) {
+      return err(nameResult.error);
+    }
+
+    return ok(new SymbolicLink(nameResult.value, parent));
+  }
+
+  static parse(
+    fullPath: string,
+    options: BuildDirectoryOptions = {},
+  ): Result<SymbolicLink, ParseFileError> {
+    const split = splitFullPath(fullPath, options);
+    if (!split.success) {
+      return split;
+    }
+
+    const { parent, name } = split.value;
+    return ok(new SymbolicLink(name, parent));
+  }
+
+  // Checks the link itself with lstat, without following it
+  async exists(): Promise<Result<boolean, SymbolicLinkExistsError>> {
+    try {
+      const stat = await this.fileSystem.lstat(this.fullPath);
+      if (stat.isSymlink) {
+        return ok(true);
+      } else {
+        return err({ kind: "NOT_SYMBOLIC_LINK" });
+      }
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return ok(false);
+      }
+      return err({
+        kind: "IO_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // The target exactly as stored in the link, possibly relative to its parent
+  async readLink(): Promise<Result<string, SymbolicLinkReadError>> {
+    try {
+      return ok(await this.fileSystem.readLink(this.fullPath));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return err({ kind: "NOT_FOUND" });
+      } else if (error instanceof Deno.errors.PermissionDenied) {
+        return err({ kind: "PERMISSION_DENIED" });
+      }
+
+      // readlink(2) reports EINVAL for anything that is not a symlink
+      const exists = await this.exists();
+      if (!exists.success && exists.error.kind === "NOT_SYMBOLIC_LINK") {
+        return err({ kind: "NOT_SYMBOLIC_LINK" });
+      }
+      return err({
+        kind: "IO_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Follows the whole chain of links and returns the canonical final target
+  async target(): Promise<Result<Directory | File, SymbolicLinkTargetError>> {
+    const link = await this.readLink();
+    if (!link.success) {
+      return link;
+    }
+
+    const target = await canonicalPath(this.fullPath, this.fileSystem);
+    if (target.success) {
+      return target;
+    }
+
+    const { error } = target;
+    switch (error.kind) {
+      case "NOT_FOUND": {
+        return err({ kind: "DANGLING", target: link.value });
+      }
+      case "INVALID_PATH": {
+        return err({
+          kind: "INVALID_TARGET",
+          target: error.path,
+          error: error.error,
+        });
+      }
+      case "UNSUPPORTED_ENTRY": {
+        return err({ kind: "UNSUPPORTED_TARGET", target: error.path });
+      }
+      case "LOOP_DETECTED":
+      case "PERMISSION_DENIED":
+      case "IO_ERROR": {
+        return err(error);
+      }
+      default: {
+        throw new ExhaustiveCaseError(error);
+      }
+    }
+  }
+
+  async targetDirectory(): Promise<
+    Result<Directory, SymbolicLinkTargetError>
+  > {
+    const target = await this.target();
+    if (!target.success) {
+      return target;
+    }
+    if (!(target.value instanceof Directory)) {
+      return err({ kind: "NOT_DIRECTORY", target: target.value.fullPath });
+    }
+    return ok(target.value);
+  }
+
+  async targetFile(): Promise<Result<File, SymbolicLinkTargetError>> {
+    const target = await this.target();
+    if (!target.success) {
+      return target;
+    }
+    if (!(target.value instanceof File)) {
+      return err({ kind: "NOT_FILE", target: target.value.fullPath });
+    }
+    return ok(target.value);
+  }
+}
+
+export type SymlinkError =
+  | { kind: "INVALID_NAME"; errors: FileNameValidateError[] }
+  | { kind: "ALREADY_EXISTS" }
+  | { kind: "PERMISSION_DENIED" }
+  | { kind: "PARENT_NOT_FOUND" }
+  | { kind: "IO_ERROR"; message: string };
+
+export type SymbolicLinkExistsError =
+  | { kind: "NOT_SYMBOLIC_LINK" }
+  | { kind: "IO_ERROR"; message: string };
+
+export type SymbolicLinkReadError =
+  | { kind: "NOT_FOUND" }
+  | { kind: "NOT_SYMBOLIC_LINK" }
+  | { kind: "PERMISSION_DENIED" }
+  | { kind: "IO_ERROR"; message: string };
+
+export type SymbolicLinkTargetError =
+  | SymbolicLinkReadError
+  | { kind: "DANGLING"; target: string }
+  | { kind: "LOOP_DETECTED" }
+  | { kind: "INVALID_TARGET"; target: string; error: BuildDirectoryError }
+  // neither a file nor a directory (socket, fifo, device)
+  | { kind: "UNSUPPORTED_TARGET"; target: string }
+  // from targetDirectory() and targetFile()
+  | { kind: "NOT_DIRECTORY"; target: string }
+  | { kind: "NOT_FILE"; target: string };
+
+export type Path = Directory | File | SymbolicLink;
+
+export type NameChangeError =
+  // the root directory has no name to change
+  | { kind: "ROOT_DIRECTORY" }
+  | { kind: "INVALID_SUFFIX"; suffix: string }
+  | { kind: "INVALID_NAME"; name: string; errors: FileNameValidateError[] };
+
+// A suffix is "" (to remove it) or a "." followed by at least one character
+function replaceSuffix(
+  name: string,
+  suffix: string,
+): Result<string, NameChangeError> {
+  if (suffix !== "" && (!suffix.startsWith(".") || suffix === ".")) {
+    return err({ kind: "INVALID_SUFFIX", suffix });
+  }
+  return ok(fileNameStem(name) + suffix);
+}
+
+export type ParseFileError =
+  | BuildDirectoryError
+  // the path is the root directory
+  | { kind: "NO_FILE_NAME"; path: string };
+
+// Like File.parse(), as only a file needs a name
+export type ParsePathError = ParseFileError;
+
+export type DetectPathError =
+  | BuildDirectoryError
+  | { kind: "NOT_FOUND"; path: string }
+  | { kind: "UNSUPPORTED_ENTRY"; path: string }
+  | { kind: "PERMISSION_DENIED"; path: string }
+  | { kind: "IO_ERROR"; message: string };
+
+export type PathParseOptions = BuildDirectoryOptions & {
+  // the kind of path to build; Path.detect() looks it up on disk instead
+  kind: "directory" | "file" | "symbolicLink";
+};
+
+function parsePath(
+  fullPath: string,
+  options: BuildDirectoryOptions & { kind: "directory" },
+): Result<Directory, ParsePathError>;
+function parsePath(
+  fullPath: string,
+  options: BuildDirectoryOptions & { kind: "file" },
+): Result<File, ParsePathError>;
+function parsePath(
+  fullPath: string,
+  options: BuildDirectoryOptions & { kind: "symbolicLink" },
+): Result<SymbolicLink, ParsePathError>;
+function parsePath(
+  fullPath: string,
+  options: PathParseOptions,
+): Result<Path, ParsePathError>;
+function parsePath(
+  fullPath: string,
+  options: PathParseOptions,
+): Result<Path, ParsePathError> {
+  switch (options.kind) {
+    case "directory": {
+      return Directory.build(fullPath, options);
+    }
+    case "file": {
+      return File.parse(fullPath, options);
+    }
+    case "symbolicLink": {
+      return SymbolicLink.parse(fullPath, options);
+    }
+    default: {
+      throw new ExhaustiveCaseError(options.kind);
+    }
+  }
+}
+
+// The kind of path found with lstat, so symbolic links are not followed
+async function detectPath(
+  fullPath: string,
+  options: BuildDirectoryOptions = {},
+): Promise<Result<Path, DetectPathError>> {
+  // Validate before touching the disk
+  const directory = Directory.build(fullPath, options);
+  if (!directory.success) {
+    return directory;
+  }
+
+  let stat: Deno.FileInfo;
+  try {
+    stat = await directory.value.fileSystem.lstat(directory.value.fullPath);
+  } catch (error) {
+    if (
+      error instanceof Deno.errors.NotFound ||
+      error instanceof Deno.errors.NotADirectory
+    ) {
+      return err({ kind: "NOT_FOUND", path: directory.value.fullPath });
+    } else if (error instanceof Deno.errors.PermissionDenied) {
+      return err({ kind: "PERMISSION_DENIED", path: directory.value.fullPath });
+    } else {
+      return err({
+        kind: "IO_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // only the root has an empty name, and it is a directory
+  const { name, parent } = directory.value;
+  if (stat.isDirectory || parent === undefined || name === "") {
+    return directory;
+  } else if (stat.isFile) {
+    return ok(new File(name, parent));
+  } else if (stat.isSymlink) {
+    return ok(new SymbolicLink(name, parent));
+  } else {
+    return err({ kind: "UNSUPPORTED_ENTRY", path: directory.value.fullPath });
+  }
+}
+
+// Written by toJSON()
+export type PathJson = {
+  kind: "directory" | "file" | "symbolicLink";
+  path: string;
+};
+
+const PATH_JSON_KINDS: Record<PathType, PathJson["kind"]> = {
+  [PathType.Directory]: "directory",
+  [PathType.File]: "file",
+  [PathType.SymbolicLink]: "symbolicLink",
+};
+
+function isPathJsonKind(value: unknown): value is PathJson["kind"] {
+  return Object.values(PATH_JSON_KINDS).some((kind) => kind === value);
+}
+
+export type PathFromFileUrlOptions = BuildDirectoryOptions & {
+  // by default a URL ending with "/" is a directory, and any other a file
+  kind?: "directory" | "file";
+};
+
+export type PathFromFileUrlError = FileUrlError | ParseFileError;
+
+function pathFromFileUrl(
+  url: string | URL,
+  options: BuildDirectoryOptions & { kind: "directory" },
+): Result<Directory, PathFromFileUrlError>;
+function pathFromFileUrl(
+  url: string | URL,
+  options: BuildDirectoryOptions & { kind: "file" },
+): Result<File, PathFromFileUrlError>;
+function pathFromFileUrl(
+  url: string | URL,
+  options?: PathFromFileUrlOptions,
+): Result<Directory | File, PathFromFileUrlError>;
+function pathFromFileUrl(
+  url: string | URL,
+  options: PathFromFileUrlOptions = {},
+): Result<Directory | File, PathFromFileUrlError> {
+  const decoded = fileUrlToPath(url);
+  if (!decoded.success) {
+    return decoded;
+  }
+  const fullPath = decoded.value;
+  const kind = options.kind ?? (fullPath.endsWith("/") ? "directory" : "file");
+  if (kind === "file") {
+    return File.parse(fullPath, options);
+  }
+  // "file:///tmp/" names the directory "/tmp"
+  return Directory.build(
+    fullPath !== "/" && fullPath.endsWith("/")
+      ? fullPath.slice(0, -1)
+      : fullPath,
+    options,
+  );
+}
+
+export type PathFromJsonOptions = BuildDirectoryOptions & {
+  // the kind the value has to have, any by default
+  kind?: PathJson["kind"];
+};
+
+export type PathFromJsonError =
+  | ParseFileError
+  // not an object like the ones toJSON() returns
+  | { kind: "INVALID_PATH_JSON" }
+  | {
+    kind: "UNEXPECTED_KIND";
+    expected: PathJson["kind"];
+    actual: PathJson["kind"];
+  };
+
+function pathFromJson(
+  value: unknown,
+  options: BuildDirectoryOptions & { kind: "directory" },
+): Result<Directory, PathFromJsonError>;
+function pathFromJson(
+  value: unknown,
+  options: BuildDirectoryOptions & { kind: "file" },
+): Result<File, PathFromJsonError>;
+function pathFromJson(
+  value: unknown,
+  options: BuildDirectoryOptions & { kind: "symbolicLink" },
+): Result<SymbolicLink, PathFromJsonError>;
+function pathFromJson(
+  value: unknown,
+  options?: PathFromJsonOptions,
+): Result<Path, PathFromJsonError>;
+function pathFromJson(
+  value: unknown,
+  options: PathFromJsonOptions = {},
+): Result<Path, PathFromJsonError> {
+  if (
+    typeof value !== "object" || value === null ||
+    !("kind" in value) || !("path" in value) ||
+    typeof value.path !== "string" || !isPathJsonKind(value.kind)
+  ) {
+    return err({ kind: "INVALID_PATH_JSON" });
+  }
+  const { path, kind } = value;
+  if (options.kind !== undefined && options.kind !== kind) {
+    return err({
+      kind: "UNEXPECTED_KIND",
+      expected: options.kind,
+      actual: kind,
+    });
+  }
+
+  switch (kind) {
+    case "directory": {
+      return Directory.build(path, options);
+    }
+    case "file": {
+      return File.parse(path, options);
+    }
+    case "symbolicLink": {
+      return SymbolicLink.parse(path, options);
+    }
+    default: {
+      throw new ExhaustiveCaseError(kind);
+    }
+  }
+}
+
+/**
+ * Paths from full path strings, URLs and JSON.
+ *
+ * `Path.parse()` builds the kind it is given without touching the disk, so it
+ * stays synchronous. Looking the kind up on disk is `Path.detect()`, which
+ * `Path.parse()` without a `kind` used to do; that form is gone, and such
+ * calls become `await Path.detect(fullPath)`.
+ *
+ * @example Known and detected kinds
+ * ```ts
+ * import { assert, assertEquals } from "@std/assert";
+ * import { MemoryFileSystem } from "./memory.ts";
+ * import { Path, PathType } from "./path.ts";
+ *
+ * const fileSystem = new MemoryFileSystem();
+ * await fileSystem.writeTextFile("/config.json", "{}");
+ *
+ * const parsed = Path.parse("/config.json", { kind: "file", fileSystem });
+ * assert(parsed.success);
+ *
+ * const detected = await Path.detect("/config.json", { fileSystem });
+ * assert(detected.success);
+ * assertEquals(detected.value.kind, PathType.File);
+ * ```
+ */
+export const Path = {
+  parse: parsePath,
+  // Async, as it looks the kind up on disk
+  detect: detectPath,
+  fromFileUrl: pathFromFileUrl,
+  // Also a validator for File.readJson()
+  fromJSON: pathFromJson,
+};
+
+// A hidden name to put next to `name`, unlikely to be taken
+function temporarySiblingName(name: string): FileName {
+  const random = crypto.randomUUID().slice(0, 8);
+  const validated = fileNameValidate(`.${name}.${random}.tmp`);
+  return validated.success ? validated.value : fileName(`.${random}.tmp`);
+}
+
+// Splits a full path into its validated parent directory and last name,
+// reporting invalid segments of both together
+function splitFullPath(
+  rawPath: string,
+  options: BuildDirectoryOptions,
+): Result<{ parent: Directory; name: FileName }, ParseFileError> {
+  const expanded = pathExpand(rawPath, options);
+  if (!expanded.success) {
+    return expanded;
+  }
+  if (!expanded.value.startsWith("/")) {
+    return err({ kind: "NOT_ABSOLUTE_PATH", path: expanded.value });
+  }
+
+  const normalized = options.normalize
+    ? normalizeAbsolutePath(expanded.value)
+    : ok(expanded.value);
+  if (!normalized.success) {
+    return normalized;
+  }
+  const path = normalized.value;
+
+  if (path === "/") {
+    return err({ kind: "NO_FILE_NAME", path });
+  }
+  if (path.endsWith("/")) {
+    return err({ kind: "INVALID_TRAILING_SLASH", path });
+  }
+
+  const separator = path.lastIndexOf("/");
+  const parent = Directory.build(path.substring(0, separator) || "/", {
+    fileSystem: options.fileSystem,
+  });
+  const name = path.substring(separator + 1);
+  const nameResult = fileNameValidate(name);
+
+  if (!parent.success) {
+    if (parent.error.kind !== "INVALID_PATH_SEGMENT" || nameResult.success) {
+      return parent;
+    }
+    return err({
+      kind: "INVALID_PATH_SEGMENT",
+      pathSegmentErrors: [
+        ...parent.error.pathSegmentErrors,
+        [name, nameResult.error],
+      ],
+    });
+  }
+
+  if (!nameResult.success) {
+    return err({
+      kind: "INVALID_PATH_SEGMENT",
+      pathSegmentErrors: [[name, nameResult.error]],
+    });
+  }
+
+  return ok({ parent: parent.value, name: nameResult.value });
+}
+
+export function directoryExistsErrorToString(
+  error: DirectoryExistsError,
+): string {
+  switch (error.kind) {
+    case "FILE_EXISTS": {
+      return "A file already exists at this path";
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function mkdirErrorToString(error: MkdirError): string {
+  switch (error.kind) {
+    case "FILE_EXISTS": {
+      return "A file already exists at this path";
+    }
+    case "PERMISSION_DENIED": {
+      return "Permission denied to create directory";
+    }
+    case "PARENT_NOT_FOUND": {
+      return "Parent directory does not exist";
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function mkdirpErrorToString(error: MkdirpError): string {
+  switch (error.kind) {
+    case "FILE_EXISTS": {
+      return "A file already exists in the path";
+    }
+    case "PERMISSION_DENIED": {
+      return "Permission denied to create directory";
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function buildDirectoryErrorToString(
+  error: BuildDirectoryError,
+): string {
+  switch (error.kind) {
+    case "NOT_ABSOLUTE_PATH": {
+      return `Path must be absolute: "${error.path}"`;
+    }
+    case "INVALID_TRAILING_SLASH": {
+      return `Path cannot end with trailing slash: "${error.path}"`;
+    }
+    case "ABOVE_ROOT": {
+      return `Path climbs above the root directory: "${error.path}"`;
+    }
+    case "INVALID_PATH_SEGMENT": {
+      const segments = error.pathSegmentErrors.map(([segment, errors]) => {
+        const message = fileNameValidationErrorsToStrings(errors).join(", ");
+        return `"${segment}": ${message}`;
+      });
+      return `Invalid path segments: ${segments.join("; ")}`;
+    }
+    case "ENV_NOT_SET":
+    case "ENV_NOT_ABSOLUTE":
+    case "ENV_NOT_ALLOWED": {
+      return envErrorToString(error);
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function wellKnownDirectoryErrorToString(
+  error: WellKnownDirectoryError,
+): string {
+  switch (error.kind) {
+    case "CWD_UNAVAILABLE": {
+      return `Cannot get the working directory: ${error.message}`;
+    }
+    case "INVALID_APP_NAME": {
+      const message = fileNameValidationErrorsToStrings(error.errors).join(
+        ", ",
+      );
+      return `Invalid app name "${error.name}": ${message}`;
+    }
+    default: {
+      return buildDirectoryErrorToString(error);
+    }
+  }
+}
+
+export function fileReadErrorToString(error: FileReadError): string {
+  switch (error.kind) {
+    case "FILE_NOT_FOUND": {
+      return "File not found";
+    }
+    case "PERMISSION_DENIED": {
+      return "Permission denied to read file";
+    }
+    case "IS_DIRECTORY": {
+      return "Cannot read directory as file";
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function fileWriteErrorToString(error: FileWriteError): string {
+  switch (error.kind) {
+    case "PERMISSION_DENIED": {
+      return "Permission denied to write file";
+    }
+    case "IS_DIRECTORY": {
+      return "Cannot write to directory";
+    }
+    case "PARENT_NOT_FOUND": {
+      return "Parent directory does not exist";
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function fileAppendErrorToString(error: FileAppendError): string {
+  switch (error.kind) {
+    case "FILE_NOT_FOUND": {
+      return "File does not exist";
+    }
+    default: {
+      return fileWriteErrorToString(error);
+    }
+  }
+}
+
+export function fileReadJsonErrorToString<E>(
+  error: FileReadJsonError<E>,
+  validationErrorToString?: (error: E) => string,
+): string {
+  switch (error.kind) {
+    case "PARSE_ERROR": {
+      return jsonParseErrorToString(error);
+    }
+    case "VALIDATION_ERROR": {
+      return validationErrorToString
+        ? `Invalid JSON content: ${validationErrorToString(error.error)}`
+        : "Invalid JSON content";
+    }
+    default: {
+      return fileReadErrorToString(error);
+    }
+  }
+}
+
+export function fileWriteJsonErrorToString(error: FileWriteJsonError): string {
+  switch (error.kind) {
+    case "STRINGIFY_ERROR": {
+      return `Value cannot be written as JSON: ${error.message}`;
+    }
+    default: {
+      return fileWriteAtomicErrorToString(error);
+    }
+  }
+}
+
+export function fileWriteAtomicErrorToString(
+  error: FileWriteAtomicError,
+): string {
+  switch (error.kind) {
+    case "SYNC_FAILED": {
+      return `Failed to flush file to disk: ${error.message}`;
+    }
+    case "RENAME_FAILED": {
+      return `Failed to move file into place: ${error.message}`;
+    }
+    default: {
+      return fileWriteErrorToString(error);
+    }
+  }
+}
+
+export function fileExistsErrorToString(error: FileExistsError): string {
+  switch (error.kind) {
+    case "NOT_FILE": {
+      return "Path exists but is not a file";
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function directoryWatchErrorToString(
+  error: DirectoryWatchError,
+): string {
+  switch (error.kind) {
+    case "NOT_FOUND": {
+      return `Directory not found: "${error.path}"`;
+    }
+    case "NOT_DIRECTORY": {
+      return `Path is not a directory: "${error.path}"`;
+    }
+    case "PERMISSION_DENIED": {
+      return `Permission denied to watch directory: "${error.path}"`;
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
 
-export function directoryExistsErrorToString(
-  error: DirectoryExistsError,
+export function directoryStatErrorToString(
+  error: DirectoryStatError,
 ): string {
   switch (error.kind) {
-    case "FILE_EXISTS": {
-      return "A file already exists at this path";
+    case "NOT_FOUND": {
+      return `Directory does not exist: "${error.path}"`;
+    }
+    case "NOT_DIRECTORY": {
+      return `Path exists but is not a directory: "${error.path}"`;
+    }
+    case "PERMISSION_DENIED": {
+      return `Permission denied: "${error.path}"`;
     }
     case "IO_ERROR": {
       return `I/O error: ${error.message}`;
@@ -357,16 +3286,75 @@ export function directoryExistsErrorToString(
   }
 }
 
-export function mkdirErrorToString(error: MkdirError): string {
+export function fileStatErrorToString(error: FileStatError): string {
   switch (error.kind) {
-    case "FILE_EXISTS": {
-      return "A file already exists at this path";
+    case "NOT_FOUND": {
+      return `File does not exist: "${error.path}"`;
+    }
+    case "NOT_FILE": {
+      return `Path exists but is not a file: "${error.path}"`;
     }
     case "PERMISSION_DENIED": {
-      return "Permission denied to create directory";
+      return `Permission denied: "${error.path}"`;
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function metadataChangeErrorToString(
+  error: MetadataChangeError,
+): string {
+  switch (error.kind) {
+    case "NOT_FOUND": {
+      return `No such file or directory: "${error.path}"`;
+    }
+    case "NOT_SUPPORTED": {
+      return `Not supported on this platform: "${error.path}"`;
+    }
+    case "PERMISSION_DENIED": {
+      return `Permission denied to change metadata: "${error.path}"`;
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function chmodErrorToString(error: ChmodError): string {
+  switch (error.kind) {
+    case "INVALID_MODE": {
+      return `Invalid mode: ${error.mode.toString(8)}`;
+    }
+    default: {
+      return metadataChangeErrorToString(error);
+    }
+  }
+}
+
+function copyTreeErrorToString(error: CopyTreeError): string {
+  switch (error.kind) {
+    case "NOT_FOUND": {
+      return `No such file or directory: "${error.path}"`;
+    }
+    case "DESTINATION_EXISTS": {
+      return `Destination already exists: "${error.path}"`;
     }
     case "PARENT_NOT_FOUND": {
-      return "Parent directory does not exist";
+      return `Parent directory does not exist: "${error.path}"`;
+    }
+    case "UNSUPPORTED_ENTRY": {
+      return `Unsupported entry type: "${error.path}"`;
+    }
+    case "PERMISSION_DENIED": {
+      return `Permission denied: "${error.path}"`;
     }
     case "IO_ERROR": {
       return `I/O error: ${error.message}`;
@@ -377,13 +3365,41 @@ export function mkdirErrorToString(error: MkdirError): string {
   }
 }
 
-export function mkdirpErrorToString(error: MkdirpError): string {
+export function fileCopyErrorToString(error: FileCopyError): string {
   switch (error.kind) {
-    case "FILE_EXISTS": {
-      return "A file already exists in the path";
+    case "SAME_FILE": {
+      return `Cannot copy a file onto itself: "${error.path}"`;
+    }
+    case "NOT_FILE": {
+      return `Path exists but is not a file: "${error.path}"`;
+    }
+    default: {
+      return copyTreeErrorToString(error);
+    }
+  }
+}
+
+export function fileMoveErrorToString(error: FileMoveError): string {
+  switch (error.kind) {
+    case "NOT_FILE": {
+      return `Path exists but is not a file: "${error.path}"`;
+    }
+    default: {
+      return copyTreeErrorToString(error);
+    }
+  }
+}
+
+export function fileRemoveErrorToString(error: FileRemoveError): string {
+  switch (error.kind) {
+    case "NOT_FOUND": {
+      return `File does not exist: "${error.path}"`;
+    }
+    case "NOT_FILE": {
+      return `Path exists but is not a file: "${error.path}"`;
     }
     case "PERMISSION_DENIED": {
-      return "Permission denied to create directory";
+      return `Permission denied to remove file: "${error.path}"`;
     }
     case "IO_ERROR": {
       return `I/O error: ${error.message}`;
@@ -394,22 +3410,27 @@ export function mkdirpErrorToString(error: MkdirpError): string {
   }
 }
 
-export function buildDirectoryErrorToString(
-  error: BuildDirectoryError,
+export function directoryRemoveErrorToString(
+  error: DirectoryRemoveError,
 ): string {
   switch (error.kind) {
-    case "NOT_ABSOLUTE_PATH": {
-      return `Path must be absolute: "${error.path}"`;
+    case "ROOT_DIRECTORY": {
+      return "Cannot remove the root directory";
     }
-    case "INVALID_TRAILING_SLASH": {
-      return `Path cannot end with trailing slash: "${error.path}"`;
+    case "NOT_FOUND": {
+      return `Directory does not exist: "${error.path}"`;
     }
-    case "INVALID_PATH_SEGMENT": {
-      const segments = error.pathSegmentErrors.map(([segment, errors]) => {
-        const message = fileNameValidationErrorsToStrings(errors).join(", ");
-        return `"${segment}": ${message}`;
-      });
-      return `Invalid path segments: ${segments.join("; ")}`;
+    case "NOT_DIRECTORY": {
+      return `Path exists but is not a directory: "${error.path}"`;
+    }
+    case "NOT_EMPTY": {
+      return `Directory is not empty: "${error.path}"`;
+    }
+    case "PERMISSION_DENIED": {
+      return `Permission denied to remove directory: "${error.path}"`;
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
     }
     default: {
       throw new ExhaustiveCaseError(error);
@@ -417,16 +3438,50 @@ export function buildDirectoryErrorToString(
   }
 }
 
-export function fileReadErrorToString(error: FileReadError): string {
+export function directoryCopyErrorToString(error: DirectoryCopyError): string {
   switch (error.kind) {
-    case "FILE_NOT_FOUND": {
-      return "File not found";
+    case "INTO_ITSELF": {
+      return `Destination is inside the source directory: "${error.path}"`;
+    }
+    case "NOT_DIRECTORY": {
+      return `Path exists but is not a directory: "${error.path}"`;
+    }
+    default: {
+      return copyTreeErrorToString(error);
+    }
+  }
+}
+
+export function directoryMoveErrorToString(error: DirectoryMoveError): string {
+  switch (error.kind) {
+    case "ROOT_DIRECTORY": {
+      return "Cannot move the root directory";
+    }
+    default: {
+      return directoryCopyErrorToString(error);
+    }
+  }
+}
+
+export function directoryListErrorToString(error: DirectoryListError): string {
+  switch (error.kind) {
+    case "NOT_FOUND": {
+      return `Directory not found: "${error.path}"`;
+    }
+    case "NOT_DIRECTORY": {
+      return `Path is not a directory: "${error.path}"`;
     }
     case "PERMISSION_DENIED": {
-      return "Permission denied to read file";
+      return `Permission denied to list directory: "${error.path}"`;
     }
-    case "IS_DIRECTORY": {
-      return "Cannot read directory as file";
+    case "INVALID_ENTRY_NAME": {
+      const message = fileNameValidationErrorsToStrings(error.errors).join(
+        ", ",
+      );
+      return `Invalid entry name "${error.name}": ${message}`;
+    }
+    case "UNSUPPORTED_ENTRY": {
+      return `Entry is neither a file nor a directory: "${error.path}"`;
     }
     case "IO_ERROR": {
       return `I/O error: ${error.message}`;
@@ -437,13 +3492,48 @@ export function fileReadErrorToString(error: FileReadError): string {
   }
 }
 
-export function fileWriteErrorToString(error: FileWriteError): string {
+export function directoryWalkErrorToString(error: DirectoryWalkError): string {
   switch (error.kind) {
-    case "PERMISSION_DENIED": {
-      return "Permission denied to write file";
+    case "SYMLINK_LOOP": {
+      return `Symlink loop detected: "${error.path}"`;
     }
-    case "IS_DIRECTORY": {
-      return "Cannot write to directory";
+    default: {
+      return directoryListErrorToString(error);
+    }
+  }
+}
+
+export function directoryGlobErrorToString(error: DirectoryGlobError): string {
+  switch (error.kind) {
+    case "EMPTY_PATTERN":
+    case "UNCLOSED_BRACE":
+    case "UNCLOSED_CHARACTER_CLASS":
+    case "INVALID_RANGE":
+    case "TRAILING_ESCAPE":
+    case "EMPTY_SEGMENT":
+    case "INVALID_GLOBSTAR":
+    case "RESERVED_SEGMENT": {
+      return globSyntaxErrorToString(error);
+    }
+    default: {
+      return directoryListErrorToString(error);
+    }
+  }
+}
+
+export function symlinkErrorToString(error: SymlinkError): string {
+  switch (error.kind) {
+    case "INVALID_NAME": {
+      const message = fileNameValidationErrorsToStrings(error.errors).join(
+        ", ",
+      );
+      return `Invalid symlink name: ${message}`;
+    }
+    case "ALREADY_EXISTS": {
+      return "Something already exists at this path";
+    }
+    case "PERMISSION_DENIED": {
+      return "Permission denied to create symlink";
     }
     case "PARENT_NOT_FOUND": {
       return "Parent directory does not exist";
@@ -457,14 +3547,191 @@ export function fileWriteErrorToString(error: FileWriteError): string {
   }
 }
 
-export function fileExistsErrorToString(error: FileExistsError): string {
+export function symbolicLinkExistsErrorToString(
+  error: SymbolicLinkExistsError,
+): string {
+  switch (error.kind) {
+    case "NOT_SYMBOLIC_LINK": {
+      return "Path exists but is not a symlink";
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function symbolicLinkReadErrorToString(
+  error: SymbolicLinkReadError,
+): string {
+  switch (error.kind) {
+    case "NOT_FOUND": {
+      return "Symlink not found";
+    }
+    case "NOT_SYMBOLIC_LINK": {
+      return "Path exists but is not a symlink";
+    }
+    case "PERMISSION_DENIED": {
+      return "Permission denied to read symlink";
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function symbolicLinkTargetErrorToString(
+  error: SymbolicLinkTargetError,
+): string {
   switch (error.kind) {
+    case "DANGLING": {
+      return `Symlink target does not exist: "${error.target}"`;
+    }
+    case "LOOP_DETECTED": {
+      return "Symlink loop detected";
+    }
+    case "INVALID_TARGET": {
+      return `Invalid symlink target "${error.target}": ${
+        buildDirectoryErrorToString(error.error)
+      }`;
+    }
+    case "UNSUPPORTED_TARGET": {
+      return `Symlink target is neither a file nor a directory: "${error.target}"`;
+    }
+    case "NOT_DIRECTORY": {
+      return `Symlink target is not a directory: "${error.target}"`;
+    }
     case "NOT_FILE": {
-      return "Path exists but is not a file";
+      return `Symlink target is not a file: "${error.target}"`;
+    }
+    default: {
+      return symbolicLinkReadErrorToString(error);
+    }
+  }
+}
+
+export function canonicalizeErrorToString(
+  error: DirectoryCanonicalizeError | FileCanonicalizeError,
+): string {
+  switch (error.kind) {
+    case "NOT_FOUND": {
+      return "Path not found";
+    }
+    case "LOOP_DETECTED": {
+      return "Symlink loop detected";
+    }
+    case "PERMISSION_DENIED": {
+      return "Permission denied to resolve path";
+    }
+    case "INVALID_PATH": {
+      return `Invalid canonical path "${error.path}": ${
+        buildDirectoryErrorToString(error.error)
+      }`;
+    }
+    case "UNSUPPORTED_ENTRY": {
+      return `Path is neither a file nor a directory: "${error.path}"`;
+    }
+    case "NOT_DIRECTORY": {
+      return `Path is not a directory: "${error.path}"`;
+    }
+    case "NOT_FILE": {
+      return `Path is not a file: "${error.path}"`;
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function parsePathErrorToString(error: ParsePathError): string {
+  switch (error.kind) {
+    case "NO_FILE_NAME": {
+      return `Path does not end with a file name: "${error.path}"`;
+    }
+    default: {
+      return buildDirectoryErrorToString(error);
+    }
+  }
+}
+
+export function detectPathErrorToString(error: DetectPathError): string {
+  switch (error.kind) {
+    case "NOT_FOUND": {
+      return `Path not found: "${error.path}"`;
+    }
+    case "UNSUPPORTED_ENTRY": {
+      return `Path is not a file, directory or symlink: "${error.path}"`;
+    }
+    case "PERMISSION_DENIED": {
+      return `Permission denied to inspect path: "${error.path}"`;
     }
     case "IO_ERROR": {
       return `I/O error: ${error.message}`;
     }
+    default: {
+      return buildDirectoryErrorToString(error);
+    }
+  }
+}
+
+export function pathFromFileUrlErrorToString(
+  error: PathFromFileUrlError,
+): string {
+  switch (error.kind) {
+    case "INVALID_URL":
+    case "NOT_FILE_URL":
+    case "REMOTE_HOST":
+    case "ENCODED_SEPARATOR": {
+      return fileUrlErrorToString(error);
+    }
+    case "NO_FILE_NAME": {
+      return `Path does not end with a file name: "${error.path}"`;
+    }
+    default: {
+      return buildDirectoryErrorToString(error);
+    }
+  }
+}
+
+export function pathFromJsonErrorToString(error: PathFromJsonError): string {
+  switch (error.kind) {
+    case "INVALID_PATH_JSON": {
+      return 'Expected a path like { "kind": "file", "path": "/a/b" }';
+    }
+    case "UNEXPECTED_KIND": {
+      return `Expected a ${error.expected} path, got a ${error.actual} path`;
+    }
+    case "NO_FILE_NAME": {
+      return `Path does not end with a file name: "${error.path}"`;
+    }
+    default: {
+      return buildDirectoryErrorToString(error);
+    }
+  }
+}
+
+export function nameChangeErrorToString(error: NameChangeError): string {
+  switch (error.kind) {
+    case "ROOT_DIRECTORY": {
+      return "The root directory has no name";
+    }
+    case "INVALID_SUFFIX": {
+      return `Invalid suffix "${error.suffix}": must be empty or start with "."`;
+    }
+    case "INVALID_NAME": {
+      const message = fileNameValidationErrorsToStrings(error.errors).join(
+        ", ",
+      );
+      return `Invalid name "${error.name}": ${message}`;
+    }
     default: {
       throw new ExhaustiveCaseError(error);
     }
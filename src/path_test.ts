@@ -1,6 +1,43 @@
-import { assert, assertEquals } from "@std/assert";
-import { Directory } from "./path.ts";
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { err, ok, type Result } from "@coint/simple";
+import {
+  buildDirectoryErrorToString,
+  type DetectPathError,
+  detectPathErrorToString,
+  Directory,
+  type DirectoryCopyError,
+  type DirectoryGlobError,
+  type DirectoryListError,
+  type DirectoryMoveError,
+  type DirectoryRemoveError,
+  File,
+  type FileAppendError,
+  fileAppendErrorToString,
+  type FileCanonicalizeError,
+  type FileCopyError,
+  type FileMoveError,
+  type FileReadError,
+  type FileReadJsonError,
+  type FileRemoveError,
+  type FileStatError,
+  type FileWriteAtomicError,
+  type NameChangeError,
+  type ParseFileError,
+  Path,
+  type PathFromFileUrlError,
+  pathFromFileUrlErrorToString,
+  type PathFromJsonError,
+  pathFromJsonErrorToString,
+  PathType,
+  SymbolicLink,
+  type SymbolicLinkExistsError,
+  type SymbolicLinkReadError,
+  type SymbolicLinkTargetError,
+  type SymlinkError,
+} from "./path.ts";
 import { assertStrictEquals } from "@std/assert/strict-equals";
+import { fileName, fileNameValidate } from "./filename.ts";
+import { MemoryFileSystem } from "./memory.ts";
 
 Deno.test("Directory.build - valid paths", () => {
   const result = Directory.build("/home/user/documents");
@@ -488,3 +525,1339 @@ Deno.test("File.exists() - path is directory", async () => {
     await Deno.remove(tempDir);
   }
 });
+
+async function collectNames(
+  entries: AsyncIterable<Result<Path, unknown>>,
+  root: Directory,
+): Promise<string[]> {
+  const names: string[] = [];
+  for await (const entry of entries) {
+    assert(entry.success);
+    names.push(entry.value.fullPath.substring(root.fullPath.length + 1));
+  }
+  return names.sort();
+}
+
+Deno.test("Directory.list() - lists files and directories", async () => {
+  const tempDir = await Deno.makeTempDir();
+  await Deno.mkdir(`${tempDir}/sub`);
+  await Deno.writeTextFile(`${tempDir}/a.txt`, "a");
+  await Deno.writeTextFile(`${tempDir}/sub/b.txt`, "b");
+
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+
+    const kinds = new Map<string, PathType>();
+    for await (const entry of dir.value.list()) {
+      assert(entry.success);
+      kinds.set(entry.value.name, entry.value.kind);
+    }
+    assertEquals(
+      kinds,
+      new Map([["a.txt", PathType.File], ["sub", PathType.Directory]]),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Directory.list() - invalid entry name", async () => {
+  const tempDir = await Deno.makeTempDir();
+  await Deno.writeTextFile(`${tempDir}/bad:name`, "");
+
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+
+    const entries = await Array.fromAsync(dir.value.list());
+    assertEquals(entries.length, 1);
+    const [entry] = entries;
+    assert(entry !== undefined && !entry.success);
+    assertStrictEquals(entry.error.kind, "INVALID_ENTRY_NAME");
+    assertEquals(entry.error.name, "bad:name");
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Directory.list() - directory not found", async () => {
+  const dir = Directory.build("/this/path/should/not/exist/at/all");
+  assert(dir.success);
+
+  const entries = await Array.fromAsync(dir.value.list());
+  assertEquals(entries, [
+    err<DirectoryListError>({
+      kind: "NOT_FOUND",
+      path: "/this/path/should/not/exist/at/all",
+    }),
+  ]);
+});
+
+Deno.test("Directory.walk() - walks recursively", async () => {
+  const tempDir = await Deno.makeTempDir();
+  await Deno.mkdir(`${tempDir}/a/b`, { recursive: true });
+  await Deno.writeTextFile(`${tempDir}/a/b/c.txt`, "c");
+
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+
+    assertEquals(await collectNames(dir.value.walk(), dir.value), [
+      "a",
+      "a/b",
+      "a/b/c.txt",
+    ]);
+    assertEquals(
+      await collectNames(dir.value.walk({ maxDepth: 2 }), dir.value),
+      ["a", "a/b"],
+    );
+    assertEquals(
+      await collectNames(
+        dir.value.walk({ filter: (path) => path instanceof File }),
+        dir.value,
+      ),
+      ["a/b/c.txt"],
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Directory.walk() - symlinks", async () => {
+  const tempDir = await Deno.makeTempDir();
+  await Deno.mkdir(`${tempDir}/a`);
+  await Deno.writeTextFile(`${tempDir}/a/f.txt`, "f");
+  await Deno.symlink(`${tempDir}/a`, `${tempDir}/link`);
+  await Deno.symlink(tempDir, `${tempDir}/a/loop`);
+
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+
+    const walked = await Array.fromAsync(
+      dir.value.walk({ followSymlinks: true }),
+    );
+    const loops = walked.filter((entry) =>
+      !entry.success && entry.error.kind === "SYMLINK_LOOP"
+    );
+    assertEquals(loops.length, 2);
+
+    assertEquals(
+      await collectNames(dir.value.walk({ maxDepth: 2 }), dir.value),
+      [
+        "a",
+        "a/f.txt",
+        "a/loop",
+        "link",
+      ],
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Directory.glob() - matches files on disk", async () => {
+  const tempDir = await Deno.makeTempDir();
+  await Deno.mkdir(`${tempDir}/src/ui`, { recursive: true });
+  await Deno.writeTextFile(`${tempDir}/src/mod.ts`, "");
+  await Deno.writeTextFile(`${tempDir}/src/ui/button.tsx`, "");
+  await Deno.writeTextFile(`${tempDir}/src/ui/style.css`, "");
+  await Deno.writeTextFile(`${tempDir}/README.md`, "");
+
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+
+    assertEquals(
+      await collectNames(dir.value.glob("src/**/*.{ts,tsx}"), dir.value),
+      ["src/mod.ts", "src/ui/button.tsx"],
+    );
+    assertEquals(
+      await collectNames(dir.value.glob("*"), dir.value),
+      ["README.md", "src"],
+    );
+
+    const absolute = await Array.fromAsync(dir.value.glob(`${tempDir}/*.md`));
+    assertEquals(absolute.length, 1);
+    assert(absolute[0]?.success);
+    assert(absolute[0].value instanceof File);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Directory.glob() - syntax error", async () => {
+  const dir = Directory.build("/tmp");
+  assert(dir.success);
+
+  const entries = await Array.fromAsync(dir.value.glob("src/[a"));
+  assertEquals(entries, [
+    err<DirectoryGlobError>({ kind: "UNCLOSED_CHARACTER_CLASS", position: 4 }),
+  ]);
+});
+
+// Lists a socket in every directory
+class SocketFileSystem extends MemoryFileSystem {
+  override async *readDir(path: string): AsyncIterable<Deno.DirEntry> {
+    yield* super.readDir(path);
+    yield {
+      name: "app.sock",
+      isFile: false,
+      isDirectory: false,
+      isSymlink: false,
+    };
+  }
+}
+
+Deno.test("Directory.glob() - unsupported entries", async () => {
+  const dir = Directory.build("/run", { fileSystem: new SocketFileSystem() });
+  assert(dir.success);
+  await dir.value.mkdir();
+  const notes = dir.value.file("notes.txt");
+  assert(notes.success);
+  await notes.value.write("");
+
+  assertEquals(await collectNames(dir.value.glob("*.txt"), dir.value), [
+    "notes.txt",
+  ]);
+  assertEquals(await Array.fromAsync(dir.value.glob("*.sock")), [
+    err<DirectoryGlobError>({
+      kind: "UNSUPPORTED_ENTRY",
+      path: "/run/app.sock",
+    }),
+  ]);
+});
+
+Deno.test("Directory.symlink() - creates a symlink", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+    const release = dir.value.directory("release-1");
+    assert(release.success);
+    await release.value.mkdir();
+
+    const link = await dir.value.symlink("current", release.value);
+    assert(link.success);
+    assertEquals(link.value.fullPath, `${tempDir}/current`);
+    assertEquals(link.value.kind, PathType.SymbolicLink);
+
+    const exists = await link.value.exists();
+    assertEquals(exists, ok(true));
+
+    const readLink = await link.value.readLink();
+    assertEquals(readLink, ok(release.value.fullPath));
+
+    const again = await dir.value.symlink("current", release.value);
+    assertEquals(again, err<SymlinkError>({ kind: "ALREADY_EXISTS" }));
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SymbolicLink.target() - resolves the target", async () => {
+  const tempDir = await Deno.makeTempDir();
+  const realDir = await Deno.realPath(tempDir);
+  await Deno.mkdir(`${tempDir}/releases/2`, { recursive: true });
+  await Deno.writeTextFile(`${tempDir}/config.json`, "{}");
+  await Deno.symlink("releases/2", `${tempDir}/current`);
+  await Deno.symlink("config.json", `${tempDir}/config`);
+
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+
+    const current = dir.value.symbolicLink("current");
+    assert(current.success);
+    const target = await current.value.targetDirectory();
+    assert(target.success);
+    assertEquals(target.value.fullPath, `${realDir}/releases/2`);
+
+    const notFile = await current.value.targetFile();
+    assert(!notFile.success);
+    assertEquals(notFile.error.kind, "NOT_FILE");
+
+    const config = dir.value.symbolicLink("config");
+    assert(config.success);
+    const file = await config.value.target();
+    assert(file.success);
+    assert(file.value instanceof File);
+    assertEquals(file.value.fullPath, `${realDir}/config.json`);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SymbolicLink.target() - dangling and loop", async () => {
+  const tempDir = await Deno.makeTempDir();
+  await Deno.symlink("missing", `${tempDir}/dangling`);
+  await Deno.symlink("loop-b", `${tempDir}/loop-a`);
+  await Deno.symlink("loop-a", `${tempDir}/loop-b`);
+
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+
+    const dangling = dir.value.symbolicLink("dangling");
+    assert(dangling.success);
+    assertEquals(await dangling.value.exists(), ok(true));
+    assertEquals(
+      await dangling.value.target(),
+      err<SymbolicLinkTargetError>({ kind: "DANGLING", target: "missing" }),
+    );
+
+    const loop = dir.value.symbolicLink("loop-a");
+    assert(loop.success);
+    assertEquals(
+      await loop.value.target(),
+      err<SymbolicLinkTargetError>({ kind: "LOOP_DETECTED" }),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SymbolicLink.exists() - not a symlink", async () => {
+  const tempDir = await Deno.makeTempDir();
+  await Deno.writeTextFile(`${tempDir}/plain.txt`, "");
+
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+
+    const link = dir.value.symbolicLink("plain.txt");
+    assert(link.success);
+    assertEquals(
+      await link.value.exists(),
+      err<SymbolicLinkExistsError>({ kind: "NOT_SYMBOLIC_LINK" }),
+    );
+    assertEquals(
+      await link.value.readLink(),
+      err<SymbolicLinkReadError>({ kind: "NOT_SYMBOLIC_LINK" }),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Directory.build - normalize", () => {
+  const result = Directory.build("/a/./b/../c//d/", { normalize: true });
+  assert(result.success);
+  assertEquals(result.value.fullPath, "/a/c/d");
+
+  const root = Directory.build("/a/..", { normalize: true });
+  assert(root.success);
+  assertEquals(root.value.fullPath, "/");
+
+  const aboveRoot = Directory.build("/a/../..", { normalize: true });
+  assert(!aboveRoot.success);
+  assertEquals(aboveRoot.error.kind, "ABOVE_ROOT");
+
+  const notNormalized = Directory.build("/a/./b");
+  assert(!notNormalized.success);
+  assertEquals(notNormalized.error.kind, "INVALID_PATH_SEGMENT");
+});
+
+Deno.test("canonicalize() - resolves symlinks", async () => {
+  const tempDir = await Deno.makeTempDir();
+  const realDir = await Deno.realPath(tempDir);
+  await Deno.mkdir(`${tempDir}/real`);
+  await Deno.writeTextFile(`${tempDir}/real/file.txt`, "");
+  await Deno.symlink(`${tempDir}/real`, `${tempDir}/link`);
+
+  try {
+    const link = Directory.build(`${tempDir}/link`);
+    assert(link.success);
+
+    const canonical = await link.value.canonicalize();
+    assert(canonical.success);
+    assertEquals(canonical.value.fullPath, `${realDir}/real`);
+
+    const file = link.value.file("file.txt");
+    assert(file.success);
+    const canonicalFile = await file.value.canonicalize();
+    assert(canonicalFile.success);
+    assertEquals(canonicalFile.value.fullPath, `${realDir}/real/file.txt`);
+
+    const notDirectory = Directory.build(`${tempDir}/link/file.txt`);
+    assert(notDirectory.success);
+    const wrongKind = await notDirectory.value.canonicalize();
+    assert(!wrongKind.success);
+    assertEquals(wrongKind.error.kind, "NOT_DIRECTORY");
+
+    const missing = link.value.file("missing.txt");
+    assert(missing.success);
+    assertEquals(
+      await missing.value.canonicalize(),
+      err<FileCanonicalizeError>({ kind: "NOT_FOUND" }),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("File.parse - valid path", () => {
+  const result = File.parse("/etc/app/config.json");
+  assert(result.success);
+  assertEquals(result.value.name, "config.json");
+  assertEquals(result.value.parent.fullPath, "/etc/app");
+
+  const atRoot = File.parse("/config.json");
+  assert(atRoot.success);
+  assertEquals(atRoot.value.fullPath, "/config.json");
+
+  const normalized = File.parse("/etc/./app/../config.json", {
+    normalize: true,
+  });
+  assert(normalized.success);
+  assertEquals(normalized.value.fullPath, "/etc/config.json");
+});
+
+Deno.test("File.parse - invalid paths", () => {
+  assertEquals(
+    File.parse("config.json"),
+    err<ParseFileError>({ kind: "NOT_ABSOLUTE_PATH", path: "config.json" }),
+  );
+  assertEquals(
+    File.parse("/"),
+    err<ParseFileError>({ kind: "NO_FILE_NAME", path: "/" }),
+  );
+  assertEquals(
+    File.parse("/etc/"),
+    err<ParseFileError>({ kind: "INVALID_TRAILING_SLASH", path: "/etc/" }),
+  );
+
+  const segments = File.parse("/a:b/c*d");
+  assert(!segments.success);
+  assertStrictEquals(segments.error.kind, "INVALID_PATH_SEGMENT");
+  assertEquals(
+    segments.error.pathSegmentErrors.map(([segment]) => segment),
+    ["a:b", "c*d"],
+  );
+});
+
+Deno.test("Path.parse - requested kind", () => {
+  const directory = Path.parse("/etc/app", { kind: "directory" });
+  assert(directory.success);
+  assert(directory.value instanceof Directory);
+
+  const file = Path.parse("/etc/app", { kind: "file" });
+  assert(file.success);
+  assert(file.value instanceof File);
+});
+
+Deno.test("Path.detect - detects kind on disk", async () => {
+  const tempDir = await Deno.makeTempDir();
+  await Deno.writeTextFile(`${tempDir}/file.txt`, "");
+  await Deno.symlink(`${tempDir}/file.txt`, `${tempDir}/link`);
+
+  try {
+    const directory = await Path.detect(tempDir);
+    assert(directory.success);
+    assertEquals(directory.value.kind, PathType.Directory);
+
+    const file = await Path.detect(`${tempDir}/file.txt`);
+    assert(file.success);
+    assertEquals(file.value.kind, PathType.File);
+
+    const link = await Path.detect(`${tempDir}/link`);
+    assert(link.success);
+    assertEquals(link.value.kind, PathType.SymbolicLink);
+
+    const missing = await Path.detect(`${tempDir}/missing`);
+    assertEquals(
+      missing,
+      err<DetectPathError>({ kind: "NOT_FOUND", path: `${tempDir}/missing` }),
+    );
+    assert(!missing.success);
+    assertEquals(
+      detectPathErrorToString(missing.error),
+      `Path not found: "${tempDir}/missing"`,
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("constructors - take validated names", () => {
+  const root = Directory.build("/");
+  assert(root.success);
+  const names = ["a.txt", "b.txt"].map((name) => fileNameValidate(name));
+  const files = names.flatMap((name) =>
+    name.success ? [new File(name.value, root.value)] : []
+  );
+  assertEquals(files.map((file) => file.fullPath), ["/a.txt", "/b.txt"]);
+
+  const dir = new Directory(fileName("dir"), root.value);
+  const link = new SymbolicLink(fileName("link"), dir);
+  assertEquals(link.fullPath, "/dir/link");
+  assertStrictEquals(link.fileSystem, root.value.fileSystem);
+});
+
+Deno.test("equals() - kind, filesystem and full path", () => {
+  const file = File.parse("/etc/app");
+  const same = File.parse("/etc/app");
+  const directory = Directory.build("/etc/app");
+  const memory = File.parse("/etc/app", {
+    fileSystem: new MemoryFileSystem(),
+  });
+  assert(file.success && same.success && directory.success && memory.success);
+
+  assert(file.value.equals(same.value));
+  assert(!file.value.equals(directory.value));
+  assert(!file.value.equals(memory.value));
+});
+
+Deno.test("equals() - normalization and case", () => {
+  // the same name synced from macOS, decomposed
+  const nfc = File.parse("/photos/Café.jpg");
+  const nfd = File.parse("/photos/Cafe\u0301.jpg");
+  assert(nfc.success && nfd.success);
+
+  assert(!nfc.value.equals(nfd.value));
+  assert(nfc.value.equals(nfd.value, { normalization: true }));
+
+  const lower = File.parse("/photos/café.jpg");
+  assert(lower.success);
+  assert(!nfd.value.equals(lower.value, { normalization: true }));
+  assert(
+    nfd.value.equals(lower.value, {
+      normalization: true,
+      caseSensitive: false,
+    }),
+  );
+});
+
+Deno.test("parents() and depth", () => {
+  const file = File.parse("/repo/src/mod.ts");
+  assert(file.success);
+  assertEquals(
+    [...file.value.parents()].map((dir) => dir.fullPath),
+    ["/repo/src", "/repo", "/"],
+  );
+  assertEquals(file.value.depth, 3);
+
+  const root = Directory.build("/");
+  assert(root.success);
+  assertEquals([...root.value.parents()], []);
+  assertEquals(root.value.depth, 0);
+});
+
+Deno.test("isAncestorOf() and isDescendantOf()", () => {
+  const root = Directory.build("/");
+  const repo = Directory.build("/repo");
+  const file = File.parse("/repo/src/mod.ts");
+  const sibling = File.parse("/repository/mod.ts");
+  assert(root.success && repo.success && file.success && sibling.success);
+
+  assert(repo.value.isAncestorOf(file.value));
+  assert(root.value.isAncestorOf(file.value));
+  assert(file.value.isDescendantOf(repo.value));
+  assert(!repo.value.isAncestorOf(repo.value));
+  assert(!repo.value.isAncestorOf(sibling.value));
+  assert(!repo.value.isAncestorOf(root.value));
+
+  const upper = Directory.build("/REPO");
+  assert(upper.success);
+  assert(!upper.value.isAncestorOf(file.value));
+  assert(upper.value.isAncestorOf(file.value, { caseSensitive: false }));
+});
+
+Deno.test("Directory.commonAncestor()", () => {
+  const paths = ["/repo/app/src/mod.ts", "/repo/app/test/mod_test.ts"].map(
+    (path) => File.parse(path),
+  );
+  const [first, second] = paths;
+  assert(first?.success && second?.success);
+  assertEquals(
+    Directory.commonAncestor(first.value, second.value)?.fullPath,
+    "/repo/app",
+  );
+  assertEquals(
+    Directory.commonAncestor(first.value)?.fullPath,
+    "/repo/app/src",
+  );
+
+  // a directory counts as containing itself
+  const app = Directory.build("/repo/app");
+  assert(app.success);
+  assertEquals(
+    Directory.commonAncestor(app.value, first.value)?.fullPath,
+    "/repo/app",
+  );
+
+  const other = File.parse("/repo/app/src/mod.ts", {
+    fileSystem: new MemoryFileSystem(),
+  });
+  assert(other.success);
+  assertEquals(Directory.commonAncestor(first.value, other.value), undefined);
+  assertEquals(Directory.commonAncestor(), undefined);
+});
+
+Deno.test("compare() - sorts directories before their contents", () => {
+  const paths = [
+    "/a-b",
+    "/a/b.txt",
+    "/a",
+    "/B",
+    "/a/b",
+  ].map((path) => {
+    const file = File.parse(path);
+    assert(file.success);
+    return file.value;
+  });
+  const dir = Directory.build("/a");
+  assert(dir.success);
+
+  const sorted = [...paths, dir.value].sort((a, b) => a.compare(b));
+  assertEquals(
+    sorted.map((path) => [path.fullPath, path.kind]),
+    [
+      ["/B", PathType.File],
+      ["/a", PathType.Directory],
+      ["/a", PathType.File],
+      ["/a/b", PathType.File],
+      ["/a/b.txt", PathType.File],
+      ["/a-b", PathType.File],
+    ],
+  );
+  assertEquals(dir.value.compare(dir.value), 0);
+});
+
+Deno.test("Path.fromFileUrl() - round trip", () => {
+  const file = File.parse("/srv/100% done #1.txt");
+  assert(file.success);
+  const url = file.value.toFileUrl();
+  assertEquals(url.href, "file:///srv/100%25%20done%20%231.txt");
+
+  const back = Path.fromFileUrl(url);
+  assert(back.success);
+  assert(back.value.equals(file.value));
+
+  const dir = Path.fromFileUrl("file:///srv/");
+  assert(dir.success);
+  assertEquals(dir.value.kind, PathType.Directory);
+  assertEquals(dir.value.fullPath, "/srv");
+
+  const forced = Path.fromFileUrl("file:///srv", { kind: "directory" });
+  assert(forced.success);
+  assertEquals(forced.value.fullPath, "/srv");
+});
+
+Deno.test("Path.fromFileUrl() - directory round trip", () => {
+  const cases: [string, string][] = [
+    ["/tmp/x", "file:///tmp/x/"],
+    ["/", "file:///"],
+  ];
+  for (const [fullPath, href] of cases) {
+    const dir = Directory.build(fullPath);
+    assert(dir.success);
+    const url = dir.value.toFileUrl();
+    assertEquals(url.href, href);
+
+    const back = Path.fromFileUrl(url);
+    assert(back.success);
+    assertEquals(back.value.kind, PathType.Directory);
+    assert(back.value.equals(dir.value));
+  }
+});
+
+Deno.test("Path.fromFileUrl() - errors", () => {
+  assertEquals(
+    Path.fromFileUrl("file:///a/nul%00l"),
+    err<PathFromFileUrlError>({
+      kind: "INVALID_PATH_SEGMENT",
+      pathSegmentErrors: [["nul\0l", [{ kind: "CONTAINS_NULL" }, {
+        kind: "CONTROL_CHAR",
+        code: 0,
+      }]]],
+    }),
+  );
+  const remote = Path.fromFileUrl("file://server/a");
+  assert(!remote.success);
+  assertEquals(
+    pathFromFileUrlErrorToString(remote.error),
+    'File URL names another host (server): "file://server/a"',
+  );
+});
+
+Deno.test("toJSON() - kind and full path only", () => {
+  const file = File.parse("/repo/src/mod.ts");
+  const dir = Directory.build("/repo");
+  assert(file.success && dir.success);
+
+  const text = JSON.stringify({ inputs: [file.value], root: dir.value });
+  assertEquals(
+    text,
+    '{"inputs":[{"kind":"file","path":"/repo/src/mod.ts"}],' +
+      '"root":{"kind":"directory","path":"/repo"}}',
+  );
+
+  // survives structured cloning, like postMessage()
+  const cloned = structuredClone(file.value.toJSON());
+  const revived = Path.fromJSON(cloned);
+  assert(revived.success);
+  assert(revived.value.equals(file.value));
+});
+
+Deno.test("toJSON() - through structuredClone()", () => {
+  const dir = Directory.build("/repo");
+  assert(dir.success);
+  // the filesystem's functions cannot be cloned
+  assertThrows(() => structuredClone(dir.value), DOMException);
+
+  const cloned = structuredClone(dir.value.toJSON());
+  const revived = Path.fromJSON(cloned, { kind: "directory" });
+  assert(revived.success);
+  assertEquals(revived.value.kind, PathType.Directory);
+  assert(revived.value.equals(dir.value));
+});
+
+Deno.test("Path.fromJSON() - validates", () => {
+  const fileSystem = new MemoryFileSystem();
+  const revived = Path.fromJSON(
+    { kind: "directory", path: "/repo" },
+    { kind: "directory", fileSystem },
+  );
+  assert(revived.success);
+  assertStrictEquals(revived.value.fileSystem, fileSystem);
+
+  assertEquals(
+    Path.fromJSON({ kind: "file", path: "/repo" }, { kind: "directory" }),
+    err<PathFromJsonError>({
+      kind: "UNEXPECTED_KIND",
+      expected: "directory",
+      actual: "file",
+    }),
+  );
+  for (const value of [null, "/repo", { kind: "socket", path: "/repo" }]) {
+    assertEquals(
+      Path.fromJSON(value),
+      err<PathFromJsonError>({ kind: "INVALID_PATH_JSON" }),
+    );
+  }
+  const relative = Path.fromJSON({ kind: "file", path: "repo" });
+  assert(!relative.success);
+  assertEquals(
+    pathFromJsonErrorToString(relative.error),
+    buildDirectoryErrorToString({ kind: "NOT_ABSOLUTE_PATH", path: "repo" }),
+  );
+});
+
+Deno.test("File.readJson() - with Path.fromJSON", async () => {
+  const manifest = File.parse("/manifest.json", {
+    fileSystem: new MemoryFileSystem(),
+  });
+  assert(manifest.success);
+  const input = File.parse("/src/mod.ts");
+  assert(input.success);
+  await manifest.value.writeJson(input.value);
+
+  const read = await manifest.value.readJson(Path.fromJSON);
+  assert(read.success);
+  assertEquals(read.value.fullPath, "/src/mod.ts");
+});
+
+Deno.test("File.withSuffix() - swaps extensions", () => {
+  const file = File.parse("/src/mod.ts");
+  assert(file.success);
+  assertEquals(file.value.stem, "mod");
+  assertEquals(file.value.suffix, ".ts");
+
+  const js = file.value.withSuffix(".js");
+  assert(js.success);
+  assert(js.value instanceof File);
+  assertEquals(js.value.fullPath, "/src/mod.js");
+
+  const bare = file.value.withSuffix("");
+  assert(bare.success);
+  assertEquals(bare.value.fullPath, "/src/mod");
+
+  assertEquals(
+    file.value.withSuffix("js"),
+    err<NameChangeError>({ kind: "INVALID_SUFFIX", suffix: "js" }),
+  );
+});
+
+Deno.test("File.withSuffix() - name too long", () => {
+  const file = File.parse(`/${"a".repeat(251)}.md`);
+  assert(file.success);
+
+  const result = file.value.withSuffix(".html");
+  assert(!result.success);
+  assertStrictEquals(result.error.kind, "INVALID_NAME");
+  assertEquals(result.error.errors.map((error) => error.kind), [
+    "TOO_LONG",
+    "UTF8_TOO_LONG",
+  ]);
+});
+
+Deno.test("withName() and withStem()", () => {
+  const file = File.parse("/dist/archive.tar.gz");
+  assert(file.success);
+
+  const renamed = file.value.withStem("backup");
+  assert(renamed.success);
+  assertEquals(renamed.value.fullPath, "/dist/backup.gz");
+
+  const dir = Directory.build("/home/user");
+  assert(dir.success);
+  const sibling = dir.value.withName("other");
+  assert(sibling.success);
+  assertEquals(sibling.value.fullPath, "/home/other");
+
+  const root = Directory.build("/");
+  assert(root.success);
+  assertEquals(
+    root.value.withName("x"),
+    err<NameChangeError>({ kind: "ROOT_DIRECTORY" }),
+  );
+});
+
+Deno.test("File.copyTo() and moveTo() - into a directory", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+    const file = dir.value.file("a.txt");
+    const target = dir.value.directory("target");
+    assert(file.success && target.success);
+    await file.value.write("content");
+    await target.value.mkdir();
+
+    const copy = await file.value.copyTo(target.value);
+    assert(copy.success);
+    assertEquals(copy.value.fullPath, `${tempDir}/target/a.txt`);
+    assertEquals(await copy.value.read(), ok("content"));
+    assertEquals(
+      await file.value.copyTo(target.value),
+      err<FileCopyError>({
+        kind: "DESTINATION_EXISTS",
+        path: copy.value.fullPath,
+      }),
+    );
+    assertEquals(
+      await file.value.copyTo(file.value),
+      err<FileCopyError>({ kind: "SAME_FILE", path: file.value.fullPath }),
+    );
+
+    const renamed = file.value.withName("b.txt");
+    assert(renamed.success);
+    const moved = await file.value.moveTo(renamed.value);
+    assert(moved.success);
+    assertEquals(await file.value.exists(), ok(false));
+    assertEquals(await renamed.value.read(), ok("content"));
+
+    assertEquals(
+      await renamed.value.moveTo(copy.value),
+      err<FileMoveError>({
+        kind: "DESTINATION_EXISTS",
+        path: copy.value.fullPath,
+      }),
+    );
+    const replaced = await renamed.value.moveTo(copy.value, {
+      overwrite: true,
+    });
+    assert(replaced.success);
+    assertEquals(await renamed.value.exists(), ok(false));
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("File.remove() - removes files only", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+    const file = dir.value.file("a.txt");
+    const notFile = File.parse(tempDir);
+    assert(file.success && notFile.success);
+    await file.value.write("");
+
+    assertEquals(await file.value.remove(), ok(undefined));
+    assertEquals(await file.value.exists(), ok(false));
+    assertEquals(
+      await file.value.remove(),
+      err<FileRemoveError>({ kind: "NOT_FOUND", path: file.value.fullPath }),
+    );
+    assertEquals(
+      await notFile.value.remove(),
+      err<FileRemoveError>({ kind: "NOT_FILE", path: tempDir }),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Directory.remove() - recursive option", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const dir = Directory.build(`${tempDir}/a/b`);
+    assert(dir.success);
+    await dir.value.mkdirp();
+    const parent = dir.value.parent;
+    assert(parent !== undefined);
+
+    assertEquals(
+      await parent.remove(),
+      err<DirectoryRemoveError>({ kind: "NOT_EMPTY", path: parent.fullPath }),
+    );
+    assertEquals(await parent.remove({ recursive: true }), ok(undefined));
+    assertEquals(await parent.exists(), ok(false));
+
+    const root = Directory.build("/");
+    assert(root.success);
+    assertEquals(
+      await root.value.remove(),
+      err<DirectoryRemoveError>({ kind: "ROOT_DIRECTORY" }),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Directory.copyTo() - copies the tree and keeps symlinks", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const source = Directory.build(`${tempDir}/source`);
+    assert(source.success);
+    await Deno.mkdir(`${tempDir}/source/nested`, { recursive: true });
+    await Deno.writeTextFile(`${tempDir}/source/nested/a.txt`, "a");
+    await Deno.symlink("nested/a.txt", `${tempDir}/source/link`);
+    const old = new Date("2000-01-01T00:00:00Z");
+    await Deno.utime(`${tempDir}/source/nested/a.txt`, old, old);
+
+    const destination = Directory.build(`${tempDir}/copy`);
+    assert(destination.success);
+    const copied = await source.value.copyTo(destination.value, {
+      preserveTimestamps: true,
+    });
+    assert(copied.success);
+
+    assertEquals(
+      await Deno.readTextFile(`${tempDir}/copy/nested/a.txt`),
+      "a",
+    );
+    assertEquals(await Deno.readLink(`${tempDir}/copy/link`), "nested/a.txt");
+    const stat = await Deno.stat(`${tempDir}/copy/nested/a.txt`);
+    assertEquals(stat.mtime?.getTime(), old.getTime());
+
+    assertEquals(
+      await source.value.copyTo(destination.value),
+      err<DirectoryCopyError>({
+        kind: "DESTINATION_EXISTS",
+        path: destination.value.fullPath,
+      }),
+    );
+    assert(
+      (await source.value.copyTo(destination.value, { overwrite: true }))
+        .success,
+    );
+
+    const inside = source.value.directory("inside");
+    assert(inside.success);
+    assertEquals(
+      await source.value.copyTo(inside.value),
+      err<DirectoryCopyError>({
+        kind: "INTO_ITSELF",
+        path: inside.value.fullPath,
+      }),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Directory.moveTo() - renames the directory", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const source = Directory.build(`${tempDir}/source`);
+    const destination = Directory.build(`${tempDir}/destination`);
+    assert(source.success && destination.success);
+    await Deno.mkdir(source.value.fullPath);
+    await Deno.writeTextFile(`${tempDir}/source/a.txt`, "a");
+    await Deno.mkdir(destination.value.fullPath);
+
+    assertEquals(
+      await source.value.moveTo(destination.value),
+      err<DirectoryMoveError>({
+        kind: "DESTINATION_EXISTS",
+        path: destination.value.fullPath,
+      }),
+    );
+    const moved = await source.value.moveTo(destination.value, {
+      overwrite: true,
+    });
+    assert(moved.success);
+    assertEquals(await source.value.exists(), ok(false));
+    assertEquals(
+      await Deno.readTextFile(`${tempDir}/destination/a.txt`),
+      "a",
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Directory.moveTo() - onto an ancestor", async () => {
+  const root = Directory.build("/", { fileSystem: new MemoryFileSystem() });
+  assert(root.success);
+  const base = root.value.directory("base");
+  assert(base.success);
+  const source = base.value.directory("source");
+  assert(source.success);
+  await source.value.mkdirp();
+  const file = source.value.file("a.txt");
+  assert(file.success);
+  await file.value.write("a");
+
+  for (const ancestor of [base.value, root.value]) {
+    assertEquals(
+      await source.value.moveTo(ancestor, { overwrite: true }),
+      err<DirectoryMoveError>({ kind: "INTO_ITSELF", path: ancestor.fullPath }),
+    );
+  }
+  assertEquals(await file.value.read(), ok("a"));
+});
+
+// Fails every rename out of /source
+class FailingMoveFileSystem extends MemoryFileSystem {
+  override rename(oldPath: string, newPath: string): Promise<void> {
+    if (oldPath === "/source") {
+      return Promise.reject(new Deno.errors.PermissionDenied("rename"));
+    }
+    return super.rename(oldPath, newPath);
+  }
+}
+
+Deno.test("Directory.moveTo() - keeps the destination when the move fails", async () => {
+  const fileSystem = new FailingMoveFileSystem();
+  const source = Directory.build("/source", { fileSystem });
+  const destination = Directory.build("/destination", { fileSystem });
+  assert(source.success && destination.success);
+  await source.value.mkdir();
+  await destination.value.mkdir();
+  const kept = destination.value.file("kept.txt");
+  assert(kept.success);
+  await kept.value.write("kept");
+
+  const moved = await source.value.moveTo(destination.value, {
+    overwrite: true,
+  });
+  assert(!moved.success);
+  assertEquals(moved.error.kind, "PERMISSION_DENIED");
+  assertEquals(await kept.value.read(), ok("kept"));
+  const root = Directory.build("/", { fileSystem });
+  assert(root.success);
+  const names: string[] = [];
+  for await (const entry of root.value.list()) {
+    assert(entry.success);
+    names.push(entry.value.name);
+  }
+  assertEquals(names.sort(), ["destination", "source"]);
+});
+
+Deno.test("File.stat() and chmod() - on disk", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+    const file = dir.value.file("script.sh");
+    assert(file.success);
+    await file.value.write("#!/bin/sh\n");
+
+    assertEquals(await file.value.chmod(0o644), ok(undefined));
+    const info = await file.value.stat();
+    assert(info.success);
+    assertEquals(info.value.size, 10);
+    assertEquals(info.value.mode, 0o644);
+    assert(info.value.permissions !== undefined);
+
+    const permissions = info.value.permissions;
+    permissions.user.execute = true;
+    assertEquals(await file.value.chmod(permissions), ok(undefined));
+    const updated = await file.value.stat();
+    assert(updated.success);
+    assertEquals(updated.value.mode, 0o744);
+
+    const old = new Date("2000-01-01T00:00:00Z");
+    assertEquals(await file.value.utime(old, old), ok(undefined));
+    const touched = await file.value.stat();
+    assert(touched.success);
+    assertEquals(touched.value.mtime?.getTime(), old.getTime());
+
+    const dirInfo = await dir.value.stat();
+    assert(dirInfo.success);
+    const notFile = File.parse(tempDir);
+    assert(notFile.success);
+    assertEquals(
+      await notFile.value.stat(),
+      err<FileStatError>({ kind: "NOT_FILE", path: tempDir }),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("File.readBytes() and writeBytes() - binary content", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+    const file = dir.value.file("image.bin");
+    assert(file.success);
+
+    const data = new Uint8Array([0, 255, 128, 10, 13]);
+    assertEquals(await file.value.writeBytes(data), ok(undefined));
+    assertEquals(await file.value.readBytes(), ok(data));
+
+    const missing = dir.value.file("missing");
+    assert(missing.success);
+    assertEquals(
+      await missing.value.readBytes(),
+      err({ kind: "FILE_NOT_FOUND" }),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("File.readable() and writable() - pipe between files", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+    const source = dir.value.file("source.log");
+    const destination = dir.value.file("destination.log");
+    assert(source.success && destination.success);
+    await source.value.write("line\n".repeat(10_000));
+
+    const readable = await source.value.readable();
+    const writable = await destination.value.writable();
+    assert(readable.success && writable.success);
+    await readable.value.pipeTo(writable.value);
+    assertEquals(await destination.value.read(), ok("line\n".repeat(10_000)));
+
+    const asFile = File.parse(tempDir);
+    assert(asFile.success);
+    assertEquals(
+      await asFile.value.readable(),
+      err({ kind: "IS_DIRECTORY" }),
+    );
+    assertEquals(
+      await asFile.value.writable(),
+      err({ kind: "IS_DIRECTORY" }),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("File.writeAtomic() - replaces the file", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+    const file = dir.value.file("state.json");
+    assert(file.success);
+
+    assertEquals(await file.value.writeAtomic("{}"), ok(undefined));
+    assertEquals(await file.value.read(), ok("{}"));
+
+    await file.value.chmod(0o600);
+    const bytes = new TextEncoder().encode('{"a":1}');
+    assertEquals(await file.value.writeAtomic(bytes), ok(undefined));
+    assertEquals(await file.value.read(), ok('{"a":1}'));
+    const info = await file.value.stat();
+    assert(info.success);
+    assertEquals(info.value.mode, 0o600);
+
+    assertEquals(
+      await file.value.writeAtomic("", { mode: 0o640, fsync: false }),
+      ok(undefined),
+    );
+    const updated = await file.value.stat();
+    assert(updated.success);
+    assertEquals(updated.value.mode, 0o640);
+
+    const names = [];
+    for await (const entry of Deno.readDir(tempDir)) {
+      names.push(entry.name);
+    }
+    assertEquals(names, ["state.json"]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("File.writeAtomic() - cleans up on failure", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${tempDir}/taken`);
+    const file = File.parse(`${tempDir}/taken`);
+    assert(file.success);
+
+    assertEquals(
+      await file.value.writeAtomic("data"),
+      err<FileWriteAtomicError>({ kind: "IS_DIRECTORY" }),
+    );
+    const names = [];
+    for await (const entry of Deno.readDir(tempDir)) {
+      names.push(entry.name);
+    }
+    assertEquals(names, ["taken"]);
+
+    const orphan = File.parse(`${tempDir}/missing/file`);
+    assert(orphan.success);
+    assertEquals(
+      await orphan.value.writeAtomic("data"),
+      err<FileWriteAtomicError>({ kind: "PARENT_NOT_FOUND" }),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+// Creates new files, then fails like a full disk while writing them
+class FullDiskFileSystem extends MemoryFileSystem {
+  override async writeFile(
+    path: string,
+    data: Uint8Array,
+    options: { createNew?: boolean; mode?: number } = {},
+  ): Promise<void> {
+    await super.writeFile(path, new Uint8Array(), options);
+    if (data.length > 0) {
+      throw new Error("No space left on device (os error 28)");
+    }
+  }
+}
+
+Deno.test("File.writeAtomic() - removes a partly written temporary file", async () => {
+  const fileSystem = new FullDiskFileSystem();
+  const root = Directory.build("/", { fileSystem });
+  assert(root.success);
+  const file = root.value.file("state.json");
+  assert(file.success);
+
+  const written = await file.value.writeAtomic("{}");
+  assert(!written.success);
+  assertEquals(written.error.kind, "IO_ERROR");
+  const names = [];
+  for await (const entry of root.value.list()) {
+    assert(entry.success);
+    names.push(entry.value.name);
+  }
+  assertEquals(names, []);
+});
+
+Deno.test("File.append() - appends and optionally creates", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+    const log = dir.value.file("app.log");
+    assert(log.success);
+
+    const missing = await log.value.append("first\n", { create: false });
+    assertEquals(missing, err<FileAppendError>({ kind: "FILE_NOT_FOUND" }));
+    assert(!missing.success);
+    assertEquals(fileAppendErrorToString(missing.error), "File does not exist");
+    assertEquals(await log.value.append("first\n"), ok(undefined));
+    assertEquals(
+      await log.value.append("second\n", { create: false }),
+      ok(undefined),
+    );
+    assertEquals(await log.value.read(), ok("first\nsecond\n"));
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("File.lines() - line endings", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+    const file = dir.value.file("data.jsonl");
+    assert(file.success);
+
+    const collect = async (keepEnds?: boolean) => {
+      const lines: string[] = [];
+      for await (const line of file.value.lines({ keepEnds })) {
+        assert(line.success);
+        lines.push(line.value);
+      }
+      return lines;
+    };
+
+    await file.value.write("a\r\nb\n\nc\rd\n");
+    assertEquals(await collect(), ["a", "b", "", "c\rd"]);
+    assertEquals(await collect(true), ["a\r\n", "b\n", "\n", "c\rd\n"]);
+
+    await file.value.write("no trailing newline");
+    assertEquals(await collect(), ["no trailing newline"]);
+
+    await file.value.write("");
+    assertEquals(await collect(), []);
+
+    const missing = dir.value.file("missing");
+    assert(missing.success);
+    const results = [];
+    for await (const line of missing.value.lines()) {
+      results.push(line);
+    }
+    assertEquals(results, [err<FileReadError>({ kind: "FILE_NOT_FOUND" })]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("File.readJson() and writeJson() - with a validator", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const dir = Directory.build(tempDir);
+    assert(dir.success);
+    const file = dir.value.file("config.json");
+    assert(file.success);
+
+    type Config = { port: number };
+    const validate = (value: unknown): Result<Config, string> =>
+      typeof value === "object" && value !== null && "port" in value &&
+        typeof value.port === "number"
+        ? ok({ port: value.port })
+        : err("port must be a number");
+
+    assertEquals(await file.value.writeJson({ port: 80 }), ok(undefined));
+    assertEquals(await file.value.read(), ok('{\n  "port": 80\n}\n'));
+    assertEquals(await file.value.readJson(validate), ok({ port: 80 }));
+
+    assertEquals(
+      await file.value.writeJson({ port: "80" }, { indent: 0, atomic: true }),
+      ok(undefined),
+    );
+    assertEquals(await file.value.readJson(), ok({ port: "80" }));
+    assertEquals(
+      await file.value.readJson(validate),
+      err<FileReadJsonError<string>>({
+        kind: "VALIDATION_ERROR",
+        error: "port must be a number",
+      }),
+    );
+
+    await file.value.write('{"port": 80,}');
+    const invalid = await file.value.readJson();
+    assert(!invalid.success && invalid.error.kind === "PARSE_ERROR");
+    assertEquals([invalid.error.line, invalid.error.column], [1, 13]);
+
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+    const written = await file.value.writeJson(cyclic);
+    assert(!written.success);
+    assertEquals(written.error.kind, "STRINGIFY_ERROR");
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
@@ -0,0 +1,172 @@
+/**
+ * A validated relative path such as `../shared/config.json`.
+ *
+ * Every segment is either `..` or a name accepted by `fileNameValidate`; `.`
+ * segments are dropped while parsing. A relative path is resolved against a
+ * directory with `Directory.resolve` / `Directory.resolveFile`, and computed
+ * from two paths with `relativeTo`.
+ *
+ * @example Parsing and resolving
+ * ```ts
+ * import { assert, assertEquals } from "@std/assert";
+ * import { fileName } from "./filename.ts";
+ * import { RelativePath } from "./relative.ts";
+ * import { Directory } from "./path.ts";
+ *
+ * const relative = RelativePath.build("../shared/config.json");
+ * assert(relative.success);
+ * assertEquals(relative.value.segments, [
+ *   "..",
+ *   fileName("shared"),
+ *   fileName("config.json"),
+ * ]);
+ *
+ * const dir = Directory.build("/repo/app");
+ * assert(dir.success);
+ * const file = dir.value.resolveFile(relative.value);
+ * assert(file.success);
+ * assertEquals(file.value.fullPath, "/repo/shared/config.json");
+ * ```
+ */
+import { err, ExhaustiveCaseError, ok, type Result } from "@coint/simple";
+import {
+  type FileName,
+  fileNameValidate,
+  fileNameValidationErrorsToStrings,
+} from "./filename.ts";
+import type { Directory, Path, PathSegmentError } from "./path.ts";
+
+// A validated name, or ".." for the parent directory
+export type RelativePathSegment = FileName | "..";
+
+export class RelativePath {
+  private constructor(readonly segments: readonly RelativePathSegment[]) {}
+
+  static build(path: string): Result<RelativePath, BuildRelativePathError> {
+    if (path.length === 0) {
+      return err({ kind: "EMPTY_PATH" });
+    }
+
+    if (path.startsWith("/")) {
+      return err({ kind: "ABSOLUTE_PATH", path });
+    }
+
+    if (path.endsWith("/")) {
+      return err({ kind: "INVALID_TRAILING_SLASH", path });
+    }
+
+    const segments: RelativePathSegment[] = [];
+    const pathSegmentErrors: PathSegmentError[] = [];
+    for (const segment of path.split("/")) {
+      if (segment === ".") {
+        continue;
+      }
+      if (segment === "..") {
+        segments.push(segment);
+        continue;
+      }
+
+      const name = fileNameValidate(segment);
+      if (name.success) {
+        segments.push(name.value);
+      } else {
+        pathSegmentErrors.push([segment, name.error]);
+      }
+    }
+
+    if (pathSegmentErrors.length) {
+      return err({ kind: "INVALID_PATH_SEGMENT", pathSegmentErrors });
+    }
+
+    return ok(new RelativePath(segments));
+  }
+
+  // The path leading from `base` to `target`, climbing with ".." as needed
+  static between(base: Directory, target: Path): RelativePath {
+    const baseSegments = pathSegments(base);
+    const targetSegments = pathSegments(target);
+
+    let common = 0;
+    while (
+      common < baseSegments.length &&
+      common < targetSegments.length &&
+      baseSegments[common] === targetSegments[common]
+    ) {
+      common += 1;
+    }
+
+    return new RelativePath([
+      ...baseSegments.slice(common).map(() => ".." as const),
+      ...targetSegments.slice(common),
+    ]);
+  }
+
+  toString(): string {
+    return this.segments.length ? this.segments.join("/") : ".";
+  }
+}
+
+export type BuildRelativePathError =
+  | { kind: "EMPTY_PATH" }
+  | { kind: "ABSOLUTE_PATH"; path: string }
+  | { kind: "INVALID_TRAILING_SLASH"; path: string }
+  | { kind: "INVALID_PATH_SEGMENT"; pathSegmentErrors: PathSegmentError[] };
+
+export type RelativePathResolveError =
+  | { kind: "ABOVE_ROOT"; path: string }
+  // the relative path is empty or ends with "..", so it cannot name a file
+  | { kind: "NO_FILE_NAME"; path: string };
+
+// The names from the root down to the path, the root itself excluded
+export function pathSegments(path: Path): FileName[] {
+  const segments: FileName[] = [];
+  let current: Path | undefined = path;
+  // only the root has an empty name
+  while (current !== undefined && current.name !== "") {
+    segments.unshift(current.name);
+    current = current.parent;
+  }
+  return segments;
+}
+
+export function buildRelativePathErrorToString(
+  error: BuildRelativePathError,
+): string {
+  switch (error.kind) {
+    case "EMPTY_PATH": {
+      return "Path cannot be empty";
+    }
+    case "ABSOLUTE_PATH": {
+      return `Path must be relative: "${error.path}"`;
+    }
+    case "INVALID_TRAILING_SLASH": {
+      return `Path cannot end with trailing slash: "${error.path}"`;
+    }
+    case "INVALID_PATH_SEGMENT": {
+      const segments = error.pathSegmentErrors.map(([segment, errors]) => {
+        const message = fileNameValidationErrorsToStrings(errors).join(", ");
+        return `"${segment}": ${message}`;
+      });
+      return `Invalid path segments: ${segments.join("; ")}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function relativePathResolveErrorToString(
+  error: RelativePathResolveError,
+): string {
+  switch (error.kind) {
+    case "ABOVE_ROOT": {
+      return `Path climbs above the root directory: "${error.path}"`;
+    }
+    case "NO_FILE_NAME": {
+      return `Path does not end with a file name: "${error.path}"`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
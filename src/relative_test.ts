@@ -0,0 +1,113 @@
+import { assert, assertEquals } from "@std/assert";
+import { err } from "@coint/simple";
+import {
+  type BuildRelativePathError,
+  RelativePath,
+  type RelativePathResolveError,
+} from "./relative.ts";
+import { Directory } from "./path.ts";
+import { fileName } from "./filename.ts";
+
+Deno.test("RelativePath.build - valid paths", () => {
+  const result = RelativePath.build("../shared/./config.json");
+  assert(result.success);
+  assertEquals(result.value.segments, [
+    "..",
+    fileName("shared"),
+    fileName("config.json"),
+  ]);
+  assertEquals(result.value.toString(), "../shared/config.json");
+
+  const current = RelativePath.build(".");
+  assert(current.success);
+  assertEquals(current.value.segments, []);
+  assertEquals(current.value.toString(), ".");
+});
+
+Deno.test("RelativePath.build - invalid paths", () => {
+  assertEquals(
+    RelativePath.build(""),
+    err<BuildRelativePathError>({ kind: "EMPTY_PATH" }),
+  );
+  assertEquals(
+    RelativePath.build("/etc"),
+    err<BuildRelativePathError>({ kind: "ABSOLUTE_PATH", path: "/etc" }),
+  );
+  assertEquals(
+    RelativePath.build("a/"),
+    err<BuildRelativePathError>({ kind: "INVALID_TRAILING_SLASH", path: "a/" }),
+  );
+  assertEquals(
+    RelativePath.build("a//b*"),
+    err<BuildRelativePathError>({
+      kind: "INVALID_PATH_SEGMENT",
+      pathSegmentErrors: [
+        ["", [{ kind: "EMPTY" }]],
+        ["b*", [{
+          kind: "INVALID_CHAR",
+          chars: ["*"],
+          filesystem: "FAT32/exFAT/NTFS",
+        }]],
+      ],
+    }),
+  );
+});
+
+Deno.test("Directory.resolve() - resolves relative paths", () => {
+  const dir = Directory.build("/repo/app");
+  assert(dir.success);
+
+  const relative = RelativePath.build("../lib/util");
+  assert(relative.success);
+  const resolved = dir.value.resolve(relative.value);
+  assert(resolved.success);
+  assertEquals(resolved.value.fullPath, "/repo/lib/util");
+
+  const toRoot = RelativePath.build("../..");
+  assert(toRoot.success);
+  const root = dir.value.resolve(toRoot.value);
+  assert(root.success);
+  assertEquals(root.value.fullPath, "/");
+});
+
+Deno.test("Directory.resolve() - above root", () => {
+  const dir = Directory.build("/repo");
+  assert(dir.success);
+
+  const relative = RelativePath.build("../../etc");
+  assert(relative.success);
+  assertEquals(
+    dir.value.resolve(relative.value),
+    err<RelativePathResolveError>({ kind: "ABOVE_ROOT", path: "../../etc" }),
+  );
+});
+
+Deno.test("Directory.resolveFile() - no file name", () => {
+  const dir = Directory.build("/repo");
+  assert(dir.success);
+
+  const relative = RelativePath.build("a/..");
+  assert(relative.success);
+  assertEquals(
+    dir.value.resolveFile(relative.value),
+    err<RelativePathResolveError>({ kind: "NO_FILE_NAME", path: "a/.." }),
+  );
+});
+
+Deno.test("relativeTo - computes relative paths", () => {
+  const base = Directory.build("/repo/app/src");
+  assert(base.success);
+  const dir = Directory.build("/repo/shared");
+  assert(dir.success);
+  const file = dir.value.file("config.json");
+  assert(file.success);
+
+  const relative = file.value.relativeTo(base.value);
+  assertEquals(relative.toString(), "../../shared/config.json");
+
+  const back = base.value.resolveFile(relative);
+  assert(back.success);
+  assertEquals(back.value.fullPath, file.value.fullPath);
+
+  assertEquals(base.value.relativeTo(base.value).toString(), ".");
+});
@@ -0,0 +1,119 @@
+/**
+ * Temporary directories and files that remove themselves.
+ *
+ * `Directory.temp()` and `File.temp()` create a uniquely named entry and wrap
+ * it in a {@link TempDirectory} or {@link TempFile}. Both implement
+ * `Symbol.asyncDispose`, so `await using` removes them when the scope exits,
+ * and `cleanup()` does the same with a typed error.
+ *
+ * @example Scoped temporary directory
+ * ```ts
+ * import { assert, assertEquals } from "@std/assert";
+ * import { MemoryFileSystem } from "./memory.ts";
+ * import { Directory } from "./path.ts";
+ *
+ * const root = Directory.build("/", { fileSystem: new MemoryFileSystem() });
+ * assert(root.success);
+ *
+ * let path: Directory;
+ * {
+ *   const temp = await Directory.temp({ prefix: "build-", parent: root.value });
+ *   assert(temp.success);
+ *   await using tmp = temp.value;
+ *   path = tmp.directory;
+ *   assertEquals(await path.exists(), { success: true, value: true });
+ * }
+ * assertEquals(await path.exists(), { success: true, value: false });
+ * ```
+ */
+import { ExhaustiveCaseError, ok, type Result } from "@coint/simple";
+import {
+  type FileNameValidateError,
+  fileNameValidationErrorsToStrings,
+} from "./filename.ts";
+import type {
+  Directory,
+  DirectoryRemoveError,
+  File,
+  FileRemoveError,
+  ParseFileError,
+} from "./path.ts";
+
+export type TempOptions = {
+  // the name is `prefix`, random characters, then `suffix`
+  prefix?: string;
+  suffix?: string;
+  // the system temporary directory by default
+  parent?: Directory;
+};
+
+export type TempCreateError =
+  // the prefix and suffix do not make a valid file name
+  | { kind: "INVALID_NAME"; errors: FileNameValidateError[] }
+  | { kind: "PARENT_NOT_FOUND" }
+  | { kind: "PERMISSION_DENIED" }
+  // the created path cannot be represented, it has been removed again
+  | { kind: "INVALID_PATH"; path: string; error: ParseFileError }
+  | { kind: "IO_ERROR"; message: string };
+
+// Created by Directory.temp()
+export class TempDirectory implements AsyncDisposable {
+  constructor(readonly directory: Directory) {}
+
+  // Removes the directory with its contents; already removed is not an error
+  async cleanup(): Promise<Result<void, DirectoryRemoveError>> {
+    const removed = await this.directory.remove({ recursive: true });
+    if (!removed.success && removed.error.kind === "NOT_FOUND") {
+      return ok(undefined);
+    }
+    return removed;
+  }
+
+  // Errors are dropped, use cleanup() to see them
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.cleanup();
+  }
+}
+
+// Created by File.temp()
+export class TempFile implements AsyncDisposable {
+  constructor(readonly file: File) {}
+
+  // Already removed is not an error
+  async cleanup(): Promise<Result<void, FileRemoveError>> {
+    const removed = await this.file.remove();
+    if (!removed.success && removed.error.kind === "NOT_FOUND") {
+      return ok(undefined);
+    }
+    return removed;
+  }
+
+  // Errors are dropped, use cleanup() to see them
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.cleanup();
+  }
+}
+
+export function tempCreateErrorToString(error: TempCreateError): string {
+  switch (error.kind) {
+    case "INVALID_NAME": {
+      const message = fileNameValidationErrorsToStrings(error.errors);
+      return `Invalid temporary name: ${message.join(", ")}`;
+    }
+    case "PARENT_NOT_FOUND": {
+      return "Parent directory does not exist";
+    }
+    case "PERMISSION_DENIED": {
+      return "Permission denied to create temporary entry";
+    }
+    case "INVALID_PATH": {
+      return `Temporary path cannot be represented: "${error.path}"`;
+    }
+    case "IO_ERROR": {
+      return `I/O error: ${error.message}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
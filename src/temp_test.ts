@@ -0,0 +1,100 @@
+import { assert, assertEquals, assertStrictEquals } from "@std/assert";
+import { err, ok } from "@coint/simple";
+import { MemoryFileSystem } from "./memory.ts";
+import { Directory, File } from "./path.ts";
+import { type TempCreateError, tempCreateErrorToString } from "./temp.ts";
+
+function memoryRoot(): Directory {
+  const root = Directory.build("/", { fileSystem: new MemoryFileSystem() });
+  assert(root.success);
+  return root.value;
+}
+
+Deno.test("Directory.temp() - removed with contents when the scope exits", async () => {
+  let path: string;
+  {
+    const temp = await Directory.temp({ prefix: "temp-test-" });
+    assert(temp.success);
+    await using tempDir = temp.value;
+    path = tempDir.directory.fullPath;
+    assert(tempDir.directory.name.startsWith("temp-test-"));
+
+    const nested = tempDir.directory.directory("a");
+    assert(nested.success);
+    await nested.value.mkdir();
+    const file = nested.value.file("b.txt");
+    assert(file.success);
+    await file.value.write("content");
+  }
+
+  const dir = Directory.build(path);
+  assert(dir.success);
+  assertEquals(await dir.value.exists(), ok(false));
+});
+
+Deno.test("Directory.temp() - cleanup() can be called more than once", async () => {
+  const temp = await Directory.temp();
+  assert(temp.success);
+  await using tempDir = temp.value;
+
+  assertEquals(await tempDir.cleanup(), ok(undefined));
+  assertEquals(await tempDir.directory.exists(), ok(false));
+  assertEquals(await tempDir.cleanup(), ok(undefined));
+});
+
+Deno.test("Directory.temp() - in a parent directory", async () => {
+  const root = memoryRoot();
+  const parent = root.directory("work");
+  assert(parent.success);
+  await parent.value.mkdir();
+
+  const temp = await Directory.temp({ parent: parent.value });
+  assert(temp.success);
+  assertEquals(temp.value.directory.parent?.fullPath, "/work");
+  assertStrictEquals(temp.value.directory.fileSystem, root.fileSystem);
+  assertEquals(await temp.value.directory.exists(), ok(true));
+
+  await temp.value.cleanup();
+  assertEquals(await temp.value.directory.exists(), ok(false));
+});
+
+Deno.test("Directory.temp() - errors", async () => {
+  const root = memoryRoot();
+  const missing = root.directory("missing");
+  assert(missing.success);
+  assertEquals(
+    await Directory.temp({ parent: missing.value }),
+    err<TempCreateError>({ kind: "PARENT_NOT_FOUND" }),
+  );
+
+  const invalid = await Directory.temp({ prefix: "a/b" });
+  assert(!invalid.success);
+  assertEquals(invalid.error.kind, "INVALID_NAME");
+  assertEquals(
+    tempCreateErrorToString(invalid.error),
+    "Invalid temporary name: Name cannot contain path separator (/)",
+  );
+});
+
+Deno.test("File.temp() - removed when the scope exits", async () => {
+  let file: File;
+  {
+    const temp = await File.temp({ suffix: ".json" });
+    assert(temp.success);
+    await using tempFile = temp.value;
+    file = tempFile.file;
+    assertEquals(file.suffix, ".json");
+    assertEquals(await file.read(), ok(""));
+  }
+  assertEquals(await file.exists(), ok(false));
+});
+
+Deno.test("File.temp() - cleanup() after the file is gone", async () => {
+  const root = memoryRoot();
+  const temp = await File.temp({ parent: root });
+  assert(temp.success);
+  assertEquals(temp.value.file.parent.fullPath, "/");
+
+  await temp.value.file.remove();
+  assertEquals(await temp.value.cleanup(), ok(undefined));
+});
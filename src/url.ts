@@ -0,0 +1,90 @@
+/**
+ * `file:` URLs for paths, as used by `import.meta.url`.
+ *
+ * Every name is percent-encoded on its own, so characters like `%`, `#`, `?`
+ * and spaces survive the round trip. Only URLs without a host, or with
+ * `localhost`, name a local path.
+ *
+ * @example Paths next to a module
+ * ```ts
+ * import { assert, assertEquals } from "@std/assert";
+ * import { Path } from "./path.ts";
+ *
+ * const module = Path.fromFileUrl(import.meta.url, { kind: "file" });
+ * assert(module.success);
+ * const data = module.value.parent.file("100% data.json");
+ * assert(data.success);
+ *
+ * const url = data.value.toFileUrl();
+ * assert(url.href.endsWith("/100%25%20data.json"));
+ * const back = Path.fromFileUrl(url);
+ * assert(back.success);
+ * assertEquals(back.value.fullPath, data.value.fullPath);
+ * ```
+ */
+import { err, ExhaustiveCaseError, ok, type Result } from "@coint/simple";
+
+export type FileUrlError =
+  | { kind: "INVALID_URL"; url: string }
+  | { kind: "NOT_FILE_URL"; url: string; protocol: string }
+  // a file on another machine, like "file://server/share"
+  | { kind: "REMOTE_HOST"; url: string; host: string }
+  // "%2F" in a name, which no name can contain
+  | { kind: "ENCODED_SEPARATOR"; url: string };
+
+// The percent-encoded URL of an absolute POSIX path
+export function fileUrlFromPath(fullPath: string): URL {
+  const encoded = fullPath.split("/").map(encodeURIComponent).join("/");
+  return new URL(`file://${encoded}`);
+}
+
+// The decoded absolute path of a `file:` URL, not validated yet
+export function fileUrlToPath(url: string | URL): Result<string, FileUrlError> {
+  const href = url.toString();
+  let parsed: URL;
+  try {
+    parsed = new URL(href);
+  } catch {
+    return err({ kind: "INVALID_URL", url: href });
+  }
+  if (parsed.protocol !== "file:") {
+    return err({ kind: "NOT_FILE_URL", url: href, protocol: parsed.protocol });
+  }
+  if (parsed.host !== "" && parsed.host !== "localhost") {
+    return err({ kind: "REMOTE_HOST", url: href, host: parsed.host });
+  }
+
+  let segments: string[];
+  try {
+    segments = parsed.pathname.split("/").map((segment) =>
+      decodeURIComponent(segment)
+    );
+  } catch {
+    // a "%" not followed by two hex digits
+    return err({ kind: "INVALID_URL", url: href });
+  }
+  if (segments.some((segment) => segment.includes("/"))) {
+    return err({ kind: "ENCODED_SEPARATOR", url: href });
+  }
+  return ok(segments.join("/"));
+}
+
+export function fileUrlErrorToString(error: FileUrlError): string {
+  switch (error.kind) {
+    case "INVALID_URL": {
+      return `Invalid URL: "${error.url}"`;
+    }
+    case "NOT_FILE_URL": {
+      return `Not a file: URL (${error.protocol}): "${error.url}"`;
+    }
+    case "REMOTE_HOST": {
+      return `File URL names another host (${error.host}): "${error.url}"`;
+    }
+    case "ENCODED_SEPARATOR": {
+      return `File URL has an encoded "/" in a name: "${error.url}"`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { assertEquals } from "@std/assert";
+import { err, ok } from "@coint/simple";
+import {
+  type FileUrlError,
+  fileUrlErrorToString,
+  fileUrlFromPath,
+  fileUrlToPath,
+} from "./url.ts";
+
+Deno.test("fileUrlFromPath() - percent-encodes every name", () => {
+  assertEquals(
+    fileUrlFromPath("/data/100% done #1?.txt").href,
+    "file:///data/100%25%20done%20%231%3F.txt",
+  );
+  assertEquals(fileUrlFromPath("/").href, "file:///");
+});
+
+Deno.test("fileUrlToPath() - decodes", () => {
+  assertEquals(
+    fileUrlToPath("file:///data/100%25%20done%20%231%3F.txt"),
+    ok("/data/100% done #1?.txt"),
+  );
+  assertEquals(fileUrlToPath("file://localhost/etc/hosts"), ok("/etc/hosts"));
+  assertEquals(fileUrlToPath(new URL("file:///a/../b/")), ok("/b/"));
+  // non-ASCII names round-trip
+  assertEquals(
+    fileUrlToPath(fileUrlFromPath("/café/日本.txt")),
+    ok("/café/日本.txt"),
+  );
+});
+
+Deno.test("fileUrlToPath() - errors", () => {
+  assertEquals(
+    fileUrlToPath("not a url"),
+    err<FileUrlError>({ kind: "INVALID_URL", url: "not a url" }),
+  );
+  assertEquals(
+    fileUrlToPath("file:///bad%zz"),
+    err<FileUrlError>({ kind: "INVALID_URL", url: "file:///bad%zz" }),
+  );
+  assertEquals(
+    fileUrlToPath("https://example.com/a"),
+    err<FileUrlError>({
+      kind: "NOT_FILE_URL",
+      url: "https://example.com/a",
+      protocol: "https:",
+    }),
+  );
+  assertEquals(
+    fileUrlToPath("file://server/share/a"),
+    err<FileUrlError>({
+      kind: "REMOTE_HOST",
+      url: "file://server/share/a",
+      host: "server",
+    }),
+  );
+
+  const separator = fileUrlToPath("file:///a%2Fb");
+  assertEquals(
+    separator,
+    err<FileUrlError>({ kind: "ENCODED_SEPARATOR", url: "file:///a%2Fb" }),
+  );
+  assertEquals(
+    fileUrlErrorToString({ kind: "ENCODED_SEPARATOR", url: "file:///a%2Fb" }),
+    'File URL has an encoded "/" in a name: "file:///a%2Fb"',
+  );
+});
@@ -0,0 +1,198 @@
+/**
+ * Debounced change events for `Directory.watch()`.
+ *
+ * The raw events of a burst are coalesced per path before they are reported:
+ * a file that is created and then written is reported once as created, one
+ * that is created and removed again is not reported at all, and the two sides
+ * of a rename become a single "renamed" event.
+ *
+ * @example Reacting to changes
+ * ```ts
+ * import { assert, assertEquals } from "@std/assert";
+ * import { MemoryFileSystem } from "./memory.ts";
+ * import { Directory } from "./path.ts";
+ *
+ * const root = Directory.build("/", { fileSystem: new MemoryFileSystem() });
+ * assert(root.success);
+ * const config = root.value.file("config.json");
+ * assert(config.success);
+ *
+ * const watcher = await root.value.watch({ debounceMs: 10 });
+ * assert(watcher.success);
+ * using events = watcher.value;
+ *
+ * await config.value.write("{}");
+ * await config.value.write('{"port":80}');
+ *
+ * for await (const event of events) {
+ *   assert(event.success);
+ *   assertEquals(event.value.kind, "created");
+ *   assertEquals(event.value.path.fullPath, "/config.json");
+ *   break;
+ * }
+ * ```
+ */
+import type { Result } from "@coint/simple";
+import {
+  type FileNameValidateError,
+  fileNameValidationErrorsToStrings,
+} from "./filename.ts";
+import type { Path } from "./path.ts";
+
+export type WatchOptions = {
+  // also watch the entries of subdirectories, true by default
+  recursive?: boolean;
+  // how long the directory has to be quiet before the changes are reported,
+  // 50 by default
+  debounceMs?: number;
+};
+
+export type WatchEvent =
+  | { kind: "created" | "modified" | "removed"; path: Path }
+  | { kind: "renamed"; path: Path; from: Path };
+
+export type WatchEventError =
+  // an entry changed whose name is not valid, watching goes on
+  {
+    kind: "INVALID_ENTRY_NAME";
+    path: string;
+    name: string;
+    errors: FileNameValidateError[];
+  };
+
+// Created by Directory.watch()
+export class DirectoryWatcher
+  implements AsyncIterable<Result<WatchEvent, WatchEventError>>, Disposable {
+  constructor(
+    private readonly watcher: AsyncIterable<Deno.FsEvent> & { close(): void },
+    private readonly debounceMs: number,
+    // turns the changes of a burst into events
+    private readonly report: (
+      changes: Map<string, WatchChange>,
+    ) => AsyncIterable<Result<WatchEvent, WatchEventError>>,
+  ) {}
+
+  close(): void {
+    this.watcher.close();
+  }
+
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  // Leaving the loop closes the watcher
+  async *[Symbol.asyncIterator](): AsyncIterator<
+    Result<WatchEvent, WatchEventError>
+  > {
+    const changes = new Map<string, WatchChange>();
+    const events = this.watcher[Symbol.asyncIterator]();
+    try {
+      let next = events.next();
+      for (;;) {
+        const event = changes.size === 0
+          ? await next
+          : await watchTimeout(next, this.debounceMs);
+        if (event !== undefined && !event.done) {
+          watchRecord(changes, event.value);
+          next = events.next();
+          continue;
+        }
+
+        yield* this.report(changes);
+        changes.clear();
+        if (event?.done) {
+          return;
+        }
+      }
+    } finally {
+      this.close();
+    }
+  }
+}
+
+export function watchEventErrorToString(error: WatchEventError): string {
+  const message = fileNameValidationErrorsToStrings(error.errors).join(", ");
+  return `Invalid entry name "${error.name}" in "${error.path}": ${message}`;
+}
+
+// The change of one path so far in a burst of events
+export type WatchChange =
+  | { kind: "created" | "modified" | "removed" }
+  // only one side of a rename was seen, so the entry either came or went
+  | { kind: "moved" }
+  | { kind: "renamed"; from: string };
+
+// Folds a raw event into the changes of the burst, keyed by path
+function watchRecord(
+  changes: Map<string, WatchChange>,
+  event: Deno.FsEvent,
+): void {
+  switch (event.kind) {
+    case "create": {
+      for (const path of event.paths) {
+        const previous = changes.get(path)?.kind;
+        if (previous === undefined || previous === "removed") {
+          changes.set(path, {
+            kind: previous === "removed" ? "modified" : "created",
+          });
+        }
+      }
+      break;
+    }
+    case "remove": {
+      for (const path of event.paths) {
+        if (changes.get(path)?.kind === "created") {
+          changes.delete(path);
+        } else {
+          changes.set(path, { kind: "removed" });
+        }
+      }
+      break;
+    }
+    case "rename": {
+      const [from, to] = event.paths;
+      if (from !== undefined && to !== undefined) {
+        const previous = changes.get(from)?.kind;
+        changes.delete(from);
+        changes.set(
+          to,
+          previous === "created"
+            ? { kind: "created" }
+            : { kind: "renamed", from },
+        );
+      } else if (from !== undefined) {
+        changes.set(from, { kind: "moved" });
+      }
+      break;
+    }
+    case "access": {
+      break;
+    }
+    default: {
+      // "modify", and "any" or "other" for changes the platform cannot name
+      for (const path of event.paths) {
+        if (!changes.has(path)) {
+          changes.set(path, { kind: "modified" });
+        }
+      }
+    }
+  }
+}
+
+// Settles like `promise`, or with undefined when that takes longer than `ms`
+async function watchTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+): Promise<T | undefined> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<undefined>((resolve) => {
+        timer = setTimeout(() => resolve(undefined), ms);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,177 @@
+import { assert, assertEquals } from "@std/assert";
+import { err } from "@coint/simple";
+import { MemoryFileSystem } from "./memory.ts";
+import { Directory, type DirectoryWatchError, PathType } from "./path.ts";
+import { watchEventErrorToString } from "./watch.ts";
+
+function memoryRoot(): Directory {
+  const root = Directory.build("/", { fileSystem: new MemoryFileSystem() });
+  assert(root.success);
+  return root.value;
+}
+
+Deno.test("Directory.watch() - coalesces a burst per path", async () => {
+  const root = memoryRoot();
+  const watcher = await root.watch({ debounceMs: 10 });
+  assert(watcher.success);
+  using events = watcher.value;
+  const iterator = events[Symbol.asyncIterator]();
+
+  const file = root.file("a.txt");
+  const scratch = root.file("scratch.txt");
+  assert(file.success && scratch.success);
+  await file.value.write("first");
+  await file.value.append(" second");
+  // created and removed again within the burst
+  await scratch.value.write("");
+  await scratch.value.remove();
+
+  const created = await iterator.next();
+  assert(!created.done && created.value.success);
+  assertEquals(created.value.value.kind, "created");
+  assertEquals(created.value.value.path.fullPath, "/a.txt");
+  assertEquals(created.value.value.path.kind, PathType.File);
+
+  await file.value.write("third");
+  const modified = await iterator.next();
+  assert(!modified.done && modified.value.success);
+  assertEquals(modified.value.value.kind, "modified");
+  assertEquals(modified.value.value.path.fullPath, "/a.txt");
+});
+
+Deno.test("Directory.watch() - renames and removed directories", async () => {
+  const root = memoryRoot();
+  const dir = root.directory("dir");
+  assert(dir.success);
+  await dir.value.mkdir();
+
+  const watcher = await root.watch({ debounceMs: 10 });
+  assert(watcher.success);
+  using events = watcher.value;
+  const iterator = events[Symbol.asyncIterator]();
+
+  const renamed = root.directory("renamed");
+  assert(renamed.success);
+  await dir.value.moveTo(renamed.value);
+  const moved = await iterator.next();
+  assert(!moved.done && moved.value.success);
+  const event = moved.value.value;
+  assert(event.kind === "renamed");
+  assertEquals(event.from.fullPath, "/dir");
+  assertEquals(event.path.fullPath, "/renamed");
+  assertEquals(event.path.kind, PathType.Directory);
+
+  // the kind is remembered from the rename once the directory is gone
+  await renamed.value.remove();
+  const removed = await iterator.next();
+  assert(!removed.done && removed.value.success);
+  assertEquals(removed.value.value.kind, "removed");
+  assertEquals(removed.value.value.path.kind, PathType.Directory);
+});
+
+Deno.test("Directory.watch() - paths are built from the watched directory", async () => {
+  const root = memoryRoot();
+  const dir = root.directory("dir");
+  assert(dir.success);
+  await dir.value.mkdir();
+  const nested = dir.value.directory("nested");
+  assert(nested.success);
+  await nested.value.mkdir();
+
+  const watcher = await dir.value.watch({ debounceMs: 10 });
+  assert(watcher.success);
+  using events = watcher.value;
+  const iterator = events[Symbol.asyncIterator]();
+
+  const file = nested.value.file("a.txt");
+  assert(file.success);
+  await file.value.write("");
+  const created = await iterator.next();
+  assert(!created.done && created.value.success);
+  const path = created.value.value.path;
+  assertEquals(path.fullPath, "/dir/nested/a.txt");
+  assertEquals(path.parent?.parent, dir.value);
+});
+
+Deno.test("Directory.watch() - not recursive", async () => {
+  const root = memoryRoot();
+  const nested = root.directory("nested");
+  assert(nested.success);
+  await nested.value.mkdir();
+
+  const watcher = await root.watch({ recursive: false, debounceMs: 10 });
+  assert(watcher.success);
+  using events = watcher.value;
+  const iterator = events[Symbol.asyncIterator]();
+
+  const inside = nested.value.file("ignored.txt");
+  const file = root.file("a.txt");
+  assert(inside.success && file.success);
+  await inside.value.write("");
+  await file.value.write("");
+
+  const created = await iterator.next();
+  assert(!created.done && created.value.success);
+  assertEquals(created.value.value.path.fullPath, "/a.txt");
+});
+
+Deno.test("Directory.watch() - invalid entry names", async () => {
+  const root = memoryRoot();
+  const watcher = await root.watch({ debounceMs: 10 });
+  assert(watcher.success);
+  using events = watcher.value;
+  const iterator = events[Symbol.asyncIterator]();
+
+  await root.fileSystem.writeTextFile("/bad\0name", "");
+  const invalid = await iterator.next();
+  assert(!invalid.done && !invalid.value.success);
+  assertEquals(invalid.value.error.kind, "INVALID_ENTRY_NAME");
+  assertEquals(invalid.value.error.name, "bad\0name");
+  assertEquals(
+    watchEventErrorToString(invalid.value.error),
+    'Invalid entry name "bad\0name" in "/bad\0name": ' +
+      "Name cannot contain null character, " +
+      "Name contains control character (0x00)",
+  );
+});
+
+Deno.test("Directory.watch() - errors", async () => {
+  const root = memoryRoot();
+  const missing = root.directory("missing");
+  const file = root.file("file");
+  assert(missing.success && file.success);
+  await file.value.write("");
+  const notDirectory = root.directory("file");
+  assert(notDirectory.success);
+
+  assertEquals(
+    await missing.value.watch(),
+    err<DirectoryWatchError>({ kind: "NOT_FOUND", path: "/missing" }),
+  );
+  assertEquals(
+    await notDirectory.value.watch(),
+    err<DirectoryWatchError>({ kind: "NOT_DIRECTORY", path: "/file" }),
+  );
+});
+
+Deno.test("Directory.watch() - on disk", async () => {
+  const temp = await Directory.temp();
+  assert(temp.success);
+  await using tempDir = temp.value;
+
+  const watcher = await tempDir.directory.watch({ debounceMs: 50 });
+  assert(watcher.success);
+  using events = watcher.value;
+
+  const file = tempDir.directory.file("a.txt");
+  assert(file.success);
+  await file.value.write("content");
+
+  for await (const event of events) {
+    assert(event.success);
+    assertEquals(event.value.kind, "created");
+    assertEquals(event.value.path.fullPath, file.value.fullPath);
+    assertEquals(event.value.path.kind, PathType.File);
+    break;
+  }
+});
@@ -0,0 +1,385 @@
+/**
+ * Pure Windows paths: parsing, validation and formatting only, no I/O.
+ *
+ * Supported forms:
+ * - drive paths - `C:\Users\x` (`/` is accepted as a separator)
+ * - UNC paths - `\\server\share\dir`
+ * - long paths - `\\?\C:\Users\x` and `\\?\UNC\server\share\dir`
+ *
+ * Segments are validated with the NTFS rules of `fileNameValidate`, which
+ * include reserved device names and trailing dots or spaces.
+ *
+ * @example Parsing and converting
+ * ```ts
+ * import { assert, assertEquals } from "@std/assert";
+ * import { WindowsDirectory } from "./windows.ts";
+ * import { Directory } from "./path.ts";
+ *
+ * const dir = WindowsDirectory.build("C:\\Users\\x");
+ * assert(dir.success);
+ * assertEquals(dir.value.fullPath, "C:\\Users\\x");
+ *
+ * const mount = Directory.build("/mnt/c");
+ * assert(mount.success);
+ * const posix = dir.value.toPosix(mount.value);
+ * assert(posix.success);
+ * assertEquals(posix.value.fullPath, "/mnt/c/Users/x");
+ * ```
+ */
+import { err, ExhaustiveCaseError, ok, type Result } from "@coint/simple";
+import {
+  fileNameValidate,
+  type FileNameValidateError,
+  fileNameValidationErrorToString,
+} from "./filename.ts";
+import type { Directory, File, PathSegmentError } from "./path.ts";
+import { pathSegments } from "./relative.ts";
+
+export type WindowsRoot =
+  | { kind: "DRIVE"; letter: string }
+  | { kind: "UNC"; server: string; share: string };
+
+export class WindowsDirectory {
+  private constructor(
+    readonly name: string,
+    readonly parent: WindowsDirectory | undefined,
+    readonly root: WindowsRoot,
+    // formatted with the \\?\ prefix, which lifts the MAX_PATH limit
+    readonly long: boolean,
+  ) {}
+
+  get fullPath(): string {
+    const parentFullPath = this.parent?.fullPath;
+    if (parentFullPath === undefined) {
+      return formatRoot(this.root, this.long);
+    }
+
+    const joiner = parentFullPath.endsWith("\\") ? "" : "\\";
+    return parentFullPath + joiner + this.name;
+  }
+
+  directory(
+    name: string,
+  ): Result<WindowsDirectory, FileNameValidateError[]> {
+    const validatedName = windowsNameValidate(name);
+    if (!validatedName.success) {
+      return err(validatedName.error);
+    }
+
+    return ok(
+      new WindowsDirectory(validatedName.value, this, this.root, this.long),
+    );
+  }
+
+  file(name: string): Result<WindowsFile, FileNameValidateError[]> {
+    return WindowsFile.build(name, this);
+  }
+
+  // Maps this path below `base`, which stands for the Windows root
+  toPosix(base: Directory): Result<Directory, WindowsConvertError> {
+    const pathSegmentErrors: PathSegmentError[] = [];
+    let current = base;
+    for (const segment of windowsSegments(this)) {
+      const child = current.directory(segment);
+      if (child.success) {
+        current = child.value;
+      } else {
+        pathSegmentErrors.push([segment, child.error]);
+      }
+    }
+
+    if (pathSegmentErrors.length) {
+      return err({ kind: "INVALID_PATH_SEGMENT", pathSegmentErrors });
+    }
+    return ok(current);
+  }
+
+  // Maps a POSIX path below `base`, checking every segment against NTFS rules
+  static fromPosix(
+    path: Directory,
+    base: WindowsDirectory,
+  ): Result<WindowsDirectory, WindowsConvertError> {
+    const pathSegmentErrors: PathSegmentError[] = [];
+    let current = base;
+    for (const segment of pathSegments(path)) {
+      const child = current.directory(segment);
+      if (child.success) {
+        current = child.value;
+      } else {
+        pathSegmentErrors.push([segment, child.error]);
+      }
+    }
+
+    if (pathSegmentErrors.length) {
+      return err({ kind: "INVALID_PATH_SEGMENT", pathSegmentErrors });
+    }
+    return ok(current);
+  }
+
+  static build(
+    path: string,
+  ): Result<WindowsDirectory, BuildWindowsPathError> {
+    const parsed = parseRoot(path);
+    if (!parsed.success) {
+      return parsed;
+    }
+
+    const { root, long, rest } = parsed.value;
+    const rootDirectory = new WindowsDirectory("", undefined, root, long);
+    if (rest.length === 0) {
+      return ok(rootDirectory);
+    }
+
+    const separator = long ? /\\/ : /[\\/]/;
+    if (separator.test(rest[rest.length - 1] ?? "")) {
+      return err({ kind: "INVALID_TRAILING_SLASH", path });
+    }
+
+    const pathSegmentErrors: PathSegmentError[] = [];
+    let current = rootDirectory;
+    for (const segment of rest.split(separator)) {
+      const child = current.directory(segment);
+      if (child.success) {
+        current = child.value;
+      } else {
+        pathSegmentErrors.push([segment, child.error]);
+      }
+    }
+
+    if (pathSegmentErrors.length) {
+      return err({ kind: "INVALID_PATH_SEGMENT", pathSegmentErrors });
+    }
+    return ok(current);
+  }
+}
+
+export class WindowsFile {
+  private constructor(
+    readonly name: string,
+    readonly parent: WindowsDirectory,
+  ) {}
+
+  get fullPath(): string {
+    const parentFullPath = this.parent.fullPath;
+    const joiner = parentFullPath.endsWith("\\") ? "" : "\\";
+    return parentFullPath + joiner + this.name;
+  }
+
+  toPosix(base: Directory): Result<File, WindowsConvertError> {
+    const parent = this.parent.toPosix(base);
+    const file = (parent.success ? parent.value : base).file(this.name);
+
+    const pathSegmentErrors = parent.success
+      ? []
+      : [...parent.error.pathSegmentErrors];
+    if (!file.success) {
+      pathSegmentErrors.push([this.name, file.error]);
+    }
+    if (!file.success || pathSegmentErrors.length) {
+      return err({ kind: "INVALID_PATH_SEGMENT", pathSegmentErrors });
+    }
+    return file;
+  }
+
+  static fromPosix(
+    path: File,
+    base: WindowsDirectory,
+  ): Result<WindowsFile, WindowsConvertError> {
+    const parent = WindowsDirectory.fromPosix(path.parent, base);
+    const file = (parent.success ? parent.value : base).file(path.name);
+
+    const pathSegmentErrors = parent.success
+      ? []
+      : [...parent.error.pathSegmentErrors];
+    if (!file.success) {
+      pathSegmentErrors.push([path.name, file.error]);
+    }
+    if (!file.success || pathSegmentErrors.length) {
+      return err({ kind: "INVALID_PATH_SEGMENT", pathSegmentErrors });
+    }
+    return file;
+  }
+
+  static build(
+    name: string,
+    parent: WindowsDirectory,
+  ): Result<WindowsFile, FileNameValidateError[]> {
+    const nameResult = windowsNameValidate(name);
+    if (!nameResult.success) {
+      return err(nameResult.error);
+    }
+
+    return ok(new WindowsFile(nameResult.value, parent));
+  }
+
+  static parse(path: string): Result<WindowsFile, BuildWindowsPathError> {
+    const separator = Math.max(path.lastIndexOf("\\"), path.lastIndexOf("/"));
+    const name = path.substring(separator + 1);
+    if (name.length === 0) {
+      return err({ kind: "INVALID_TRAILING_SLASH", path });
+    }
+
+    // A root keeps its separator ("C:\"), any other directory drops it
+    const rootParent = WindowsDirectory.build(path.substring(0, separator + 1));
+    const parent = rootParent.success
+      ? rootParent
+      : WindowsDirectory.build(path.substring(0, separator));
+    if (!parent.success) {
+      return parent;
+    }
+
+    const file = WindowsFile.build(name, parent.value);
+    if (!file.success) {
+      return err({
+        kind: "INVALID_PATH_SEGMENT",
+        pathSegmentErrors: [[name, file.error]],
+      });
+    }
+    return file;
+  }
+}
+
+export function windowsNameValidate(
+  name: string,
+): Result<string, FileNameValidateError[]> {
+  return fileNameValidate(name, { targets: ["ntfs"] });
+}
+
+export type BuildWindowsPathError =
+  | { kind: "NOT_ABSOLUTE_PATH"; path: string }
+  | { kind: "INVALID_TRAILING_SLASH"; path: string }
+  | { kind: "INVALID_UNC_ROOT"; path: string }
+  // device namespace paths like \\.\COM1
+  | { kind: "UNSUPPORTED_PREFIX"; path: string }
+  | {
+    kind: "INVALID_PATH_SEGMENT";
+    pathSegmentErrors: PathSegmentError[];
+  };
+
+export type WindowsConvertError = {
+  kind: "INVALID_PATH_SEGMENT";
+  pathSegmentErrors: PathSegmentError[];
+};
+
+type ParsedRoot = { root: WindowsRoot; long: boolean; rest: string };
+
+function parseRoot(path: string): Result<ParsedRoot, BuildWindowsPathError> {
+  if (path.startsWith("\\\\?\\")) {
+    const rest = path.slice(4);
+    if (rest.toUpperCase().startsWith("UNC\\")) {
+      return parseUncRoot(rest.slice(4), true, path);
+    }
+    return parseDriveRoot(rest, true, path);
+  }
+
+  if (/^[\\/][\\/][.?][\\/]/.test(path)) {
+    return err({ kind: "UNSUPPORTED_PREFIX", path });
+  }
+
+  if (/^[\\/][\\/]/.test(path)) {
+    return parseUncRoot(path.slice(2), false, path);
+  }
+
+  return parseDriveRoot(path, false, path);
+}
+
+function parseDriveRoot(
+  text: string,
+  long: boolean,
+  path: string,
+): Result<ParsedRoot, BuildWindowsPathError> {
+  // "C:foo" is relative to the current directory of drive C
+  const match = (long ? /^([A-Za-z]):\\/ : /^([A-Za-z]):[\\/]/).exec(text);
+  if (!match?.[1]) {
+    return err({ kind: "NOT_ABSOLUTE_PATH", path });
+  }
+
+  return ok({
+    root: { kind: "DRIVE", letter: match[1].toUpperCase() },
+    long,
+    rest: text.slice(3),
+  });
+}
+
+function parseUncRoot(
+  text: string,
+  long: boolean,
+  path: string,
+): Result<ParsedRoot, BuildWindowsPathError> {
+  const [server = "", share = "", ...rest] = text.split(long ? /\\/ : /[\\/]/);
+  if (server.length === 0 || share.length === 0) {
+    return err({ kind: "INVALID_UNC_ROOT", path });
+  }
+
+  return ok({
+    root: { kind: "UNC", server, share },
+    long,
+    rest: rest.join("\\"),
+  });
+}
+
+function formatRoot(root: WindowsRoot, long: boolean): string {
+  switch (root.kind) {
+    case "DRIVE": {
+      return `${long ? "\\\\?\\" : ""}${root.letter}:\\`;
+    }
+    case "UNC": {
+      const prefix = long ? "\\\\?\\UNC\\" : "\\\\";
+      return `${prefix}${root.server}\\${root.share}`;
+    }
+    default: {
+      throw new ExhaustiveCaseError(root);
+    }
+  }
+}
+
+function windowsSegments(path: WindowsDirectory): string[] {
+  const segments: string[] = [];
+  let current: WindowsDirectory | undefined = path;
+  while (current?.parent) {
+    segments.unshift(current.name);
+    current = current.parent;
+  }
+  return segments;
+}
+
+export function buildWindowsPathErrorToString(
+  error: BuildWindowsPathError,
+): string {
+  switch (error.kind) {
+    case "NOT_ABSOLUTE_PATH": {
+      return `Path must be absolute: "${error.path}"`;
+    }
+    case "INVALID_TRAILING_SLASH": {
+      return `Path cannot end with trailing slash: "${error.path}"`;
+    }
+    case "INVALID_UNC_ROOT": {
+      return `UNC path must start with \\\\server\\share: "${error.path}"`;
+    }
+    case "UNSUPPORTED_PREFIX": {
+      return `Device namespace paths are not supported: "${error.path}"`;
+    }
+    case "INVALID_PATH_SEGMENT": {
+      return pathSegmentErrorsToString(error.pathSegmentErrors);
+    }
+    default: {
+      throw new ExhaustiveCaseError(error);
+    }
+  }
+}
+
+export function windowsConvertErrorToString(
+  error: WindowsConvertError,
+): string {
+  return pathSegmentErrorsToString(error.pathSegmentErrors);
+}
+
+function pathSegmentErrorsToString(
+  pathSegmentErrors: PathSegmentError[],
+): string {
+  const segments = pathSegmentErrors.map(([segment, errors]) => {
+    const message = errors.map(fileNameValidationErrorToString).join(", ");
+    return `"${segment}": ${message}`;
+  });
+  return `Invalid path segments: ${segments.join("; ")}`;
+}
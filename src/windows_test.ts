@@ -0,0 +1,141 @@
+import { assert, assertEquals } from "@std/assert";
+import { err, ok } from "@coint/simple";
+import {
+  type BuildWindowsPathError,
+  WindowsDirectory,
+  WindowsFile,
+  windowsNameValidate,
+} from "./windows.ts";
+import type { FileNameValidateError } from "./filename.ts";
+import { Directory } from "./path.ts";
+
+Deno.test("WindowsDirectory.build - drive paths", () => {
+  const result = WindowsDirectory.build("c:/Users\\x");
+  assert(result.success);
+  assertEquals(result.value.root, { kind: "DRIVE", letter: "C" });
+  assertEquals(result.value.name, "x");
+  assertEquals(result.value.fullPath, "C:\\Users\\x");
+
+  const root = WindowsDirectory.build("D:\\");
+  assert(root.success);
+  assertEquals(root.value.parent, undefined);
+  assertEquals(root.value.fullPath, "D:\\");
+});
+
+Deno.test("WindowsDirectory.build - UNC paths", () => {
+  const result = WindowsDirectory.build("\\\\server\\share\\dir");
+  assert(result.success);
+  assertEquals(result.value.root, {
+    kind: "UNC",
+    server: "server",
+    share: "share",
+  });
+  assertEquals(result.value.fullPath, "\\\\server\\share\\dir");
+
+  assertEquals(
+    WindowsDirectory.build("\\\\server"),
+    err<BuildWindowsPathError>({
+      kind: "INVALID_UNC_ROOT",
+      path: "\\\\server",
+    }),
+  );
+});
+
+Deno.test("WindowsDirectory.build - long paths", () => {
+  const drive = WindowsDirectory.build("\\\\?\\C:\\very\\long");
+  assert(drive.success);
+  assert(drive.value.long);
+  assertEquals(drive.value.fullPath, "\\\\?\\C:\\very\\long");
+
+  const unc = WindowsDirectory.build("\\\\?\\UNC\\server\\share\\dir");
+  assert(unc.success);
+  assertEquals(unc.value.root.kind, "UNC");
+  assertEquals(unc.value.fullPath, "\\\\?\\UNC\\server\\share\\dir");
+});
+
+Deno.test("WindowsDirectory.build - errors", () => {
+  assertEquals(
+    WindowsDirectory.build("C:relative"),
+    err<BuildWindowsPathError>({
+      kind: "NOT_ABSOLUTE_PATH",
+      path: "C:relative",
+    }),
+  );
+  assertEquals(
+    WindowsDirectory.build("\\\\.\\COM1"),
+    err<BuildWindowsPathError>({
+      kind: "UNSUPPORTED_PREFIX",
+      path: "\\\\.\\COM1",
+    }),
+  );
+  assertEquals(
+    WindowsDirectory.build("C:\\x\\"),
+    err<BuildWindowsPathError>({
+      kind: "INVALID_TRAILING_SLASH",
+      path: "C:\\x\\",
+    }),
+  );
+  assertEquals(
+    WindowsDirectory.build("C:\\aux\\dir."),
+    err<BuildWindowsPathError>({
+      kind: "INVALID_PATH_SEGMENT",
+      pathSegmentErrors: [
+        ["aux", [{ kind: "RESERVED_DEVICE_NAME", name: "AUX" }]],
+        ["dir.", [{ kind: "TRAILING_DOT_OR_SPACE" }]],
+      ],
+    }),
+  );
+});
+
+Deno.test("windowsNameValidate - NTFS rules", () => {
+  assertEquals(windowsNameValidate("report.txt"), ok("report.txt"));
+  assertEquals(
+    windowsNameValidate("nul.tar.gz"),
+    err<FileNameValidateError[]>([
+      { kind: "RESERVED_DEVICE_NAME", name: "NUL" },
+    ]),
+  );
+  assertEquals(windowsNameValidate("COM10"), ok("COM10"));
+  assertEquals(
+    windowsNameValidate("name "),
+    err<FileNameValidateError[]>([{ kind: "TRAILING_DOT_OR_SPACE" }]),
+  );
+});
+
+Deno.test("WindowsFile.parse", () => {
+  const file = WindowsFile.parse("C:\\Users\\x\\notes.txt");
+  assert(file.success);
+  assertEquals(file.value.name, "notes.txt");
+  assertEquals(file.value.parent.fullPath, "C:\\Users\\x");
+
+  const atRoot = WindowsFile.parse("C:\\boot.ini");
+  assert(atRoot.success);
+  assertEquals(atRoot.value.fullPath, "C:\\boot.ini");
+});
+
+Deno.test("POSIX conversion", () => {
+  const base = WindowsDirectory.build("C:\\build");
+  assert(base.success);
+  const dir = Directory.build("/out/assets");
+  assert(dir.success);
+  const file = dir.value.file("logo.png");
+  assert(file.success);
+
+  const windowsFile = WindowsFile.fromPosix(file.value, base.value);
+  assert(windowsFile.success);
+  assertEquals(windowsFile.value.fullPath, "C:\\build\\out\\assets\\logo.png");
+
+  const mount = Directory.build("/mnt/c");
+  assert(mount.success);
+  const posixFile = windowsFile.value.toPosix(mount.value);
+  assert(posixFile.success);
+  assertEquals(posixFile.value.fullPath, "/mnt/c/build/out/assets/logo.png");
+
+  const reserved = Directory.build("/out/con");
+  assert(reserved.success);
+  const converted = WindowsDirectory.fromPosix(reserved.value, base.value);
+  assert(!converted.success);
+  assertEquals(converted.error.pathSegmentErrors, [
+    ["con", [{ kind: "RESERVED_DEVICE_NAME", name: "CON" }]],
+  ]);
+});